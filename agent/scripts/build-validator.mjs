@@ -0,0 +1,46 @@
+// Compiles schemas/nexgen-quiz.v1.schema.json into a standalone validator for the worker:
+// Workers cannot compile schemas at runtime (no eval), so the CLI's Ajv setup runs here instead.
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import Ajv2020, { _ } from "ajv/dist/2020.js";
+import addFormats from "ajv-formats";
+import standaloneCode from "ajv/dist/standalone/index.js";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "..");
+const schema = JSON.parse(await fs.readFile(path.join(root, "schemas", "nexgen-quiz.v1.schema.json"), "utf8"));
+const outFile = path.join(root, "agent", "src", "quiz", "schema", "validateQuizV1.generated.js");
+
+// Same options as src/quiz/schema/validate.ts, plus ESM standalone output.
+const ajv = new Ajv2020({
+  allErrors: true,
+  strict: true,
+  $data: true,
+  discriminator: true,
+  code: { source: true, esm: true, formats: _`require("ajv-formats/dist/formats").fullFormats` }
+});
+addFormats(ajv);
+
+const validate = ajv.compile(schema);
+// Ajv still emits require() for its runtime helpers; turn those into imports so the file is plain ESM.
+const imports = [];
+const code = standaloneCode(ajv, validate).replace(/require\("([^"]+)"\)/g, (_match, specifier) => {
+  const name = `runtime${imports.length}`;
+  imports.push(`import ${name} from "${specifier}.js";`);
+  return name;
+});
+await fs.mkdir(path.dirname(outFile), { recursive: true });
+await fs.writeFile(outFile, `// Generated by agent/scripts/build-validator.mjs. Do not edit.\n${imports.join("\n")}\n${code}\n`, "utf8");
+await fs.writeFile(
+  outFile.replace(/\.js$/, ".d.ts"),
+  [
+    "// Generated by agent/scripts/build-validator.mjs. Do not edit.",
+    "export type SchemaError = { instancePath: string; keyword: string; params: Record<string, unknown>; message?: string };",
+    "declare const validate: ((data: unknown) => boolean) & { errors?: SchemaError[] | null };",
+    "export { validate };",
+    "export default validate;",
+    ""
+  ].join("\n"),
+  "utf8"
+);
+console.log(`Wrote ${path.relative(root, outFile)} (+ .d.ts)`);
@@ -0,0 +1,26 @@
+/** Worker bindings and vars (wrangler.toml `[vars]`, secrets and the `[ai]` binding). */
+export type Env = {
+  AGENT_API_KEY?: string;
+  /** Correction rounds for a quiz that fails validation (default 2, 0 turns them off). */
+  AGENT_MAX_REPAIRS?: string;
+  /** openai (default), anthropic, workers-ai or stub. */
+  LLM_PROVIDER?: string;
+  /** Model for whichever provider is selected; each provider has its own default. */
+  LLM_MODEL?: string;
+  OPENAI_API_KEY?: string;
+  /** Kept for existing deployments; LLM_MODEL wins. */
+  OPENAI_MODEL?: string;
+  /** Any OpenAI-compatible chat completions API, e.g. Azure, Groq or a local server. */
+  OPENAI_BASE_URL?: string;
+  /** "false" for compatible endpoints that reject `response_format`. */
+  OPENAI_JSON_MODE?: string;
+  ANTHROPIC_API_KEY?: string;
+  /** Stub provider only: how many broken replies to give before a valid one, to exercise repairs. */
+  STUB_BAD_REPLIES?: string;
+  AI?: WorkersAiBinding;
+};
+
+/** The subset of the Workers AI binding the agent uses. */
+export type WorkersAiBinding = {
+  run(model: string, inputs: Record<string, unknown>): Promise<unknown>;
+};
@@ -1,45 +1,46 @@
-type QuizRequest = {
-  prompt: string;
-  schemaVersion?: string;
-  settings?: {
-    questionCount?: number;
-    choicesPerQuestion?: number;
-    shuffleAnswers?: boolean;
-    timeLimitMinutes?: number;
-    allowedAttempts?: number;
-  };
-  yearLevel?: {
-    min?: number;
-    max?: number;
-  };
-};
-
-type Env = {
-  AGENT_API_KEY?: string;
-  OPENAI_API_KEY?: string;
-  OPENAI_MODEL?: string;
-};
+import type { Env } from "./env.js";
+import { selectProvider, type ChatMessage, type LlmProvider } from "./providers/index.js";
+import validateQuizV1 from "./schema/validateQuizV1.generated.js";
+import type { NexgenQuizV1, Question } from "../../../src/shared/nexgenQuiz.generated.js";
+import {
+  citationProblems,
+  QUIZ_REPAIRS_HEADER,
+  QUIZ_SOURCE_LIMITS,
+  sanitizeSources,
+  SOURCE_TAG_PREFIX,
+  type QuizAgentRequest,
+  type QuizSource
+} from "../../../src/shared/quizAgentContract.js";
+import { QUIZ_LIMITS, quizDimensionsProblem, yearLevelProblem, type QuizDimensions } from "../../../src/shared/quizLimits.js";
+import { sanitizeQuestions, sanitizeTags, toNonEmptyString } from "../../../src/shared/quizSanitize.js";
+import { semanticIssues } from "../../../src/shared/quizSemantics.js";
 
-type SanitizedQuestion = {
-  id: "Q1" | "Q2" | "Q3" | "Q4" | "Q5";
-  type: "multiple_choice";
-  prompt: string;
-  choices: [string, string, string, string];
-  correctIndex: 0 | 1 | 2 | 3;
-  explanation?: string;
-  difficulty?: "easy" | "medium" | "hard";
-  outcomeTags?: string[];
-};
-
-const DEFAULT_MODEL = "gpt-4o-mini";
-const OPENAI_URL = "https://api.openai.com/v1/chat/completions";
 const DEFAULT_QUESTION_COUNT = 5;
 const DEFAULT_CHOICES_PER_QUESTION = 4;
+const DEFAULT_MAX_REPAIRS = 2;
+const MAX_REPAIRS_LIMIT = 5;
+/** Problems listed in one correction prompt; the rest usually share a cause. */
+const MAX_LISTED_PROBLEMS = 20;
+
+type QuizCheck =
+  | { ok: true; quiz: Record<string, unknown> }
+  | { ok: false; problems: string[] };
+
+/** What one request asks the model for, and how its replies are checked. */
+type GenerationJob = {
+  subject: "quiz" | "question";
+  system: string;
+  user: string;
+  maxTokens: number;
+  dimensions: QuizDimensions;
+  topic: string;
+  check(text: string): QuizCheck;
+};
 
-function jsonResponse(body: unknown, status = 200): Response {
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
   return new Response(JSON.stringify(body, null, 2), {
     status,
-    headers: { "Content-Type": "application/json; charset=utf-8" }
+    headers: { "Content-Type": "application/json; charset=utf-8", ...headers }
   });
 }
 
@@ -54,61 +55,71 @@ function extractJson(text: string): string | null {
   return text.slice(start, end + 1);
 }
 
-async function callOpenAi(prompt: string, env: Env): Promise<string> {
-  const apiKey = env.OPENAI_API_KEY?.trim();
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY is not set");
+function parseMaxRepairs(value: string | undefined): number {
+  if (value === undefined || value.trim() === "") return DEFAULT_MAX_REPAIRS;
+  const repairs = Number(value);
+  if (!Number.isInteger(repairs) || repairs < 0 || repairs > MAX_REPAIRS_LIMIT) {
+    throw new Error(`AGENT_MAX_REPAIRS must be an integer from 0 to ${MAX_REPAIRS_LIMIT}`);
   }
+  return repairs;
+}
 
-  const model = env.OPENAI_MODEL?.trim() || DEFAULT_MODEL;
-  const res = await fetch(OPENAI_URL, {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({
-      model,
-      messages: [
-        { role: "system", content: buildSystemPrompt() },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.6,
-      max_tokens: 1600
-    })
+async function generateQuizText(
+  provider: LlmProvider,
+  job: GenerationJob,
+  messages: ChatMessage[],
+  sources: QuizSource[] | undefined
+): Promise<string> {
+  return provider.complete({
+    system: job.system,
+    messages,
+    temperature: sources ? 0.3 : 0.6,
+    maxTokens: job.maxTokens,
+    topic: job.topic,
+    dimensions: job.dimensions,
+    sourceIds: sources?.map((source) => source.id)
   });
+}
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`OpenAI API error ${res.status} ${res.statusText}\n${text}`);
-  }
+function groundingRules(grounded: boolean): string[] {
+  return grounded
+    ? [
+        "Write every question only from the source material provided, not from general knowledge.",
+        `Cite the page each question comes from by putting '${SOURCE_TAG_PREFIX}<id>' in its outcomeTags.`
+      ]
+    : [];
+}
 
-  const data = (await res.json()) as {
-    choices?: Array<{ message?: { content?: string } }>;
-  };
-  const content = data.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error("OpenAI API returned empty content");
-  }
-  return content;
+function sourceMaterial(sources: QuizSource[] | undefined): string[] {
+  if (!sources) return [];
+  return [
+    "",
+    "Source material:",
+    ...sources.map((source) => `\n[${SOURCE_TAG_PREFIX}${source.id}] ${source.title}\n${source.text}`)
+  ];
 }
 
-function buildSystemPrompt(): string {
+function buildSystemPrompt(settings: QuizDimensions, grounded: boolean): string {
   return [
     "You are a quiz generator.",
     "Return ONLY valid JSON. No markdown, no code fences, no extra text.",
     "Use schemaVersion 'nexgen-quiz.v1'.",
-    "All questions must be multiple_choice with exactly 4 choices.",
-    "There must be exactly 5 questions with ids Q1..Q5.",
-    "Use correctIndex 0..3 for the right answer.",
+    `All questions must be multiple_choice with exactly ${settings.choicesPerQuestion} choices.`,
+    `There must be exactly ${settings.questionCount} questions with ids Q1..Q${settings.questionCount}.`,
+    `Use correctIndex 0..${settings.choicesPerQuestion - 1} for the right answer.`,
     "Keep prompts concise and age-appropriate.",
-    "If unsure, keep description and tags short."
+    "If unsure, keep description and tags short.",
+    ...groundingRules(grounded)
   ].join(" ");
 }
 
-function buildUserPrompt(payload: QuizRequest, yearLevel: { min: number; max: number }, settings: { questionCount: number; choicesPerQuestion: number }): string {
-  return [
+function buildUserPrompt(
+  payload: QuizAgentRequest,
+  yearLevel: { min: number; max: number },
+  settings: QuizDimensions,
+  sources: QuizSource[] | undefined
+): string {
+  const request = [
     `Prompt: ${payload.prompt}`,
     `Year level: ${yearLevel.min}-${yearLevel.max}.`,
     `Question count: ${settings.questionCount}.`,
@@ -119,100 +130,194 @@ function buildUserPrompt(payload: QuizRequest, yearLevel: { min: number; max: nu
     "source.generator should be 'cloudflare-agent'.",
     "source.generatedAtUtc should be ISO8601 UTC."
   ].join(" ");
+  return [request, ...sourceMaterial(sources)].join("\n");
 }
 
-function normalizeNumber(value: unknown, fallback: number): number {
-  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+function buildQuestionSystemPrompt(choicesPerQuestion: number, grounded: boolean): string {
+  return [
+    "You are a quiz generator, replacing one question in an existing quiz.",
+    "Return ONLY valid JSON. No markdown, no code fences, no extra text.",
+    "Return one multiple_choice question object with prompt, choices, correctIndex, explanation, difficulty and outcomeTags.",
+    `It must have exactly ${choicesPerQuestion} choices and correctIndex 0..${choicesPerQuestion - 1}.`,
+    "It must test something the other questions do not.",
+    "Keep the prompt concise and age-appropriate.",
+    ...groundingRules(grounded)
+  ].join(" ");
 }
 
-function toNonEmptyString(value: unknown): string | undefined {
-  if (typeof value !== "string") return undefined;
-  const trimmed = value.trim();
-  return trimmed.length > 0 ? trimmed : undefined;
+function describeQuestion(question: Question): string {
+  return `${question.id}: ${question.prompt} (answer: ${question.choices[question.correctIndex]})`;
 }
 
-function normalizeChoice(value: unknown): string | undefined {
-  const direct = toNonEmptyString(value);
-  if (direct) return direct;
-  if (typeof value !== "object" || value === null) return undefined;
-  const record = value as Record<string, unknown>;
-  return (
-    toNonEmptyString(record.text) ??
-    toNonEmptyString(record.answer_text) ??
-    toNonEmptyString(record.label) ??
-    toNonEmptyString(record.value)
-  );
+function buildQuestionUserPrompt(
+  payload: QuizAgentRequest,
+  quiz: NexgenQuizV1,
+  index: number,
+  instructions: string | undefined,
+  sources: QuizSource[] | undefined
+): string {
+  const others = quiz.questions.filter((_, idx) => idx !== index);
+  return [
+    `Quiz: ${quiz.title}. Prompt: ${payload.prompt}`,
+    ...(others.length > 0 ? ["Other questions in the quiz:", ...others.map((question) => `- ${describeQuestion(question)}`)] : []),
+    `Question to replace: ${describeQuestion(quiz.questions[index])}`,
+    instructions ? `The teacher asks: ${instructions}` : "Write a different, better question.",
+    ...sourceMaterial(sources)
+  ].join("\n");
 }
 
-function sanitizeTags(value: unknown): string[] | undefined {
-  if (!Array.isArray(value)) return undefined;
-  const seen = new Set<string>();
-  const tags: string[] = [];
-  for (const entry of value) {
-    const tag = toNonEmptyString(entry);
-    if (!tag || seen.has(tag)) continue;
-    seen.add(tag);
-    tags.push(tag);
-    if (tags.length >= 12) break;
-  }
-  return tags.length ? tags : undefined;
+/** Sent back with the rejected reply: the model sees exactly what to fix and must resend all of it. */
+function buildRepairPrompt(problems: string[], subject: GenerationJob["subject"]): string {
+  const listed = problems.slice(0, MAX_LISTED_PROBLEMS).map((problem) => `- ${problem}`);
+  if (problems.length > listed.length) listed.push(`- ...and ${problems.length - listed.length} more`);
+  return [
+    `That reply is not a valid nexgen-quiz.v1 ${subject}:`,
+    ...listed,
+    `Return the complete corrected ${subject} as JSON only, keeping everything that was already valid.`
+  ].join("\n");
 }
 
-function sanitizeQuestions(
-  value: unknown,
-  count: number,
-  choicesPerQuestion: number
-): SanitizedQuestion[] | null {
-  if (!Array.isArray(value)) return null;
-  if (value.length < count) return null;
-  const subset = value.slice(0, count);
-
-  const questions = subset.map((raw, idx) => {
-    const record = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
-    const id = `Q${idx + 1}` as SanitizedQuestion["id"];
-    const prompt = toNonEmptyString(record.prompt) ?? `Question ${idx + 1}`;
-
-    const choicesRaw = Array.isArray(record.choices) ? record.choices : [];
-    const choicesClean = choicesRaw
-      .map((choice) => normalizeChoice(choice))
-      .filter((choice): choice is string => Boolean(choice));
-    if (choicesClean.length < choicesPerQuestion) {
-      return null;
+function normalizeNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Parses and sanitizes one model reply, then validates it with the same nexgen-quiz.v1 schema
+ * (and Ajv options) as the CLI, so a quiz that passes here also passes `create`.
+ */
+function checkQuizReply(
+  text: string,
+  payload: QuizAgentRequest,
+  yearLevel: { min: number; max: number },
+  settings: QuizDimensions,
+  sources: QuizSource[] | undefined
+): QuizCheck {
+  const parsed = parseReply(text);
+  if (!parsed.ok) return parsed;
+  const quiz = parsed.quiz;
+
+  const problems: string[] = [];
+  const questions = sanitizeQuestions(quiz.questions, settings.questionCount, settings.choicesPerQuestion, problems);
+  if (!questions) return { ok: false, problems };
+
+  const sanitized: Record<string, unknown> = {
+    schemaVersion: "nexgen-quiz.v1",
+    title: toNonEmptyString(quiz.title) ?? "Generated Quiz",
+    description: toNonEmptyString(quiz.description),
+    topic: toNonEmptyString(quiz.topic),
+    tags: sanitizeTags(quiz.tags),
+    yearLevel,
+    settings: {
+      questionCount: settings.questionCount,
+      choicesPerQuestion: settings.choicesPerQuestion
+    },
+    questions,
+    source: {
+      prompt: payload.prompt,
+      generator: "cloudflare-agent",
+      generatedAtUtc: new Date().toISOString()
     }
-    const choices = choicesClean.slice(0, choicesPerQuestion) as [
-      string,
-      string,
-      string,
-      string
-    ];
-
-    const correctIndexRaw = normalizeNumber(record.correctIndex, 0);
-    const correctIndex = (correctIndexRaw >= 0 && correctIndexRaw <= 3
-      ? correctIndexRaw
-      : 0) as SanitizedQuestion["correctIndex"];
-
-    const explanation = toNonEmptyString(record.explanation);
-    const difficulty = toNonEmptyString(record.difficulty) as SanitizedQuestion["difficulty"] | undefined;
-    const outcomeTags = sanitizeTags(record.outcomeTags);
-
-    const question: SanitizedQuestion = {
-      id,
-      type: "multiple_choice",
-      prompt,
-      choices,
-      correctIndex
+  };
+
+  if (typeof quiz.source === "object" && quiz.source) {
+    const source = quiz.source as Record<string, unknown>;
+    sanitized.source = {
+      prompt: toNonEmptyString(source.prompt) ?? payload.prompt,
+      generator: toNonEmptyString(source.generator) ?? "cloudflare-agent",
+      generatedAtUtc: toNonEmptyString(source.generatedAtUtc) ?? new Date().toISOString()
     };
-    if (explanation) question.explanation = explanation;
-    if (difficulty === "easy" || difficulty === "medium" || difficulty === "hard") {
-      question.difficulty = difficulty;
-    }
-    if (outcomeTags) question.outcomeTags = outcomeTags;
+  }
 
-    return question;
-  });
+  // Round-trip drops the undefined optional fields, as the response body would.
+  const candidate = JSON.parse(JSON.stringify(sanitized)) as Record<string, unknown>;
+  const schemaErrors = schemaProblems(candidate);
+  if (schemaErrors.length > 0) return { ok: false, problems: schemaErrors };
+  if (sources) {
+    const citationErrors = citationProblems(questions, sources);
+    if (citationErrors.length > 0) return { ok: false, problems: citationErrors };
+  }
+  return { ok: true, quiz: candidate };
+}
 
-  if (questions.some((q) => q === null)) return null;
-  return questions as SanitizedQuestion[];
+/**
+ * Checks a replacement question: sanitized like a generated one, then validated in place in the
+ * existing quiz. Problem paths are relative to the question, which is all the model sent.
+ */
+function checkQuestionReply(
+  text: string,
+  quiz: NexgenQuizV1,
+  index: number,
+  choicesPerQuestion: number,
+  sources: QuizSource[] | undefined
+): QuizCheck {
+  const parsed = parseReply(text);
+  if (!parsed.ok) return parsed;
+  const reply = parsed.quiz;
+  const raw = Array.isArray(reply.questions) ? reply.questions[0] : reply.question ?? reply;
+
+  const problems: string[] = [];
+  const question = sanitizeQuestions([raw], 1, choicesPerQuestion, problems)?.[0];
+  const existing = quiz.questions[index];
+  const relative = (list: string[]) => list.map((problem) => problem.replace(/^\/questions\/\d+(\S*)/, (_match, rest: string) => rest || "/"));
+  if (!question) return { ok: false, problems: relative(problems) };
+  question.id = existing.id;
+
+  const candidate = { ...quiz, questions: quiz.questions.map((entry, idx) => (idx === index ? question : entry)) };
+  const schemaErrors = schemaProblems(candidate);
+  if (schemaErrors.length > 0) return { ok: false, problems: relative(schemaErrors) };
+  if (sources) {
+    const citationErrors = citationProblems([question], sources);
+    if (citationErrors.length > 0) return { ok: false, problems: relative(citationErrors) };
+  }
+  return { ok: true, quiz: candidate };
+}
+
+function parseReply(text: string): { ok: true; quiz: Record<string, unknown> } | { ok: false; problems: string[] } {
+  const jsonText = extractJson(text);
+  if (!jsonText) {
+    return { ok: false, problems: ["The reply did not contain a JSON object"] };
+  }
+  try {
+    return { ok: true, quiz: JSON.parse(jsonText) as Record<string, unknown> };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, problems: [`The reply is not valid JSON: ${message}`] };
+  }
+}
+
+/** Schema errors first; the checks the schema cannot express (duplicate choices, ...) once it passes. */
+function schemaProblems(quiz: unknown): string[] {
+  if (!validateQuizV1(quiz)) {
+    return (validateQuizV1.errors ?? []).map((error) => `${error.instancePath || "/"} ${error.message ?? error.keyword}`);
+  }
+  return semanticIssues(quiz).map((issue) => `${issue.path || "/"} ${issue.message}`);
+}
+
+/** The job for `regenerate`, or a message saying what is wrong with the request. */
+function buildRegenerateJob(
+  payload: QuizAgentRequest,
+  regenerate: NonNullable<QuizAgentRequest["regenerate"]>,
+  sources: QuizSource[] | undefined
+): GenerationJob | string {
+  const { quiz, questionId, instructions } = regenerate;
+  if (!validateQuizV1(quiz)) {
+    return "regenerate.quiz must be a valid nexgen-quiz.v1 quiz";
+  }
+  const index = quiz.questions.findIndex((question) => question.id === questionId);
+  if (index === -1) {
+    return `regenerate.questionId "${questionId}" is not in the quiz`;
+  }
+  const note = toNonEmptyString(instructions);
+  const { choicesPerQuestion } = quiz.settings;
+  return {
+    subject: "question",
+    system: buildQuestionSystemPrompt(choicesPerQuestion, Boolean(sources)),
+    user: buildQuestionUserPrompt(payload, quiz, index, note, sources),
+    maxTokens: 1200,
+    dimensions: { questionCount: 1, choicesPerQuestion },
+    topic: note ?? payload.prompt,
+    check: (text) => checkQuestionReply(text, quiz, index, choicesPerQuestion, sources)
+  };
 }
 
 export default {
@@ -229,9 +334,9 @@ export default {
       }
     }
 
-    let payload: QuizRequest;
+    let payload: QuizAgentRequest;
     try {
-      payload = (await request.json()) as QuizRequest;
+      payload = (await request.json()) as QuizAgentRequest;
     } catch {
       return errorResponse("Invalid JSON body", 400);
     }
@@ -240,72 +345,105 @@ export default {
       return errorResponse("prompt is required", 400);
     }
 
-    const schemaVersion = payload.schemaVersion ?? "nexgen-quiz.v1";
+    if (payload.schemaVersion !== undefined && payload.schemaVersion !== "nexgen-quiz.v1") {
+      return errorResponse("schemaVersion must be nexgen-quiz.v1", 400);
+    }
     const yearLevel = {
-      min: normalizeNumber(payload.yearLevel?.min, 7),
-      max: normalizeNumber(payload.yearLevel?.max, 10)
+      min: normalizeNumber(payload.yearLevel?.min, QUIZ_LIMITS.minYearLevel),
+      max: normalizeNumber(payload.yearLevel?.max, QUIZ_LIMITS.maxYearLevel)
     };
     const settings = {
       questionCount: normalizeNumber(payload.settings?.questionCount, DEFAULT_QUESTION_COUNT),
       choicesPerQuestion: normalizeNumber(payload.settings?.choicesPerQuestion, DEFAULT_CHOICES_PER_QUESTION)
     };
-    if (yearLevel.max < yearLevel.min) {
-      return errorResponse("yearLevel.max must be >= yearLevel.min", 400);
+    // The model cannot repair a year level the schema rejects, so it is not worth a generation call.
+    const yearLevelError = yearLevelProblem(yearLevel);
+    if (yearLevelError) {
+      return errorResponse(yearLevelError, 400);
+    }
+    const settingsProblem = quizDimensionsProblem(settings, "settings");
+    if (settingsProblem) {
+      return errorResponse(settingsProblem, 400);
+    }
+
+    let sources: QuizSource[] | undefined;
+    if (payload.sources !== undefined) {
+      const sanitizedSources = sanitizeSources(payload.sources);
+      if (!sanitizedSources) {
+        return errorResponse(
+          `sources must be 1 to ${QUIZ_SOURCE_LIMITS.maxSources} items with unique id and non-empty title and text, ${QUIZ_SOURCE_LIMITS.maxTotalChars} characters of text in total`,
+          400
+        );
+      }
+      sources = sanitizedSources;
     }
 
-    let text: string;
+    let provider: LlmProvider;
     try {
-      const prompt = buildUserPrompt(payload, yearLevel, settings);
-      text = await callOpenAi(prompt, env);
+      provider = selectProvider(env);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
-      return errorResponse(message, 502);
-    }
-    const jsonText = extractJson(text);
-    if (!jsonText) {
-      return errorResponse("Model did not return JSON", 502);
+      return errorResponse(`Agent is misconfigured: ${message}`, 500);
     }
 
-    let quiz: Record<string, unknown>;
+    let maxRepairs: number;
     try {
-      quiz = JSON.parse(jsonText) as Record<string, unknown>;
-    } catch {
-      return errorResponse("Model returned invalid JSON", 502);
+      maxRepairs = parseMaxRepairs(env.AGENT_MAX_REPAIRS);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return errorResponse(`Agent is misconfigured: ${message}`, 500);
     }
 
-    const questions = sanitizeQuestions(quiz.questions, settings.questionCount, settings.choicesPerQuestion);
-    if (!questions) {
-      return errorResponse("Model returned invalid choices for one or more questions", 502);
+    let job: GenerationJob;
+    if (payload.regenerate !== undefined) {
+      const { regenerate } = payload;
+      if (
+        typeof regenerate !== "object" ||
+        regenerate === null ||
+        typeof regenerate.quiz !== "object" ||
+        regenerate.quiz === null ||
+        !toNonEmptyString(regenerate.questionId)
+      ) {
+        return errorResponse("regenerate must be an object with a quiz and a non-empty questionId", 400);
+      }
+      const built = buildRegenerateJob(payload, regenerate, sources);
+      if (typeof built === "string") return errorResponse(built, 400);
+      job = built;
+    } else {
+      job = {
+        subject: "quiz",
+        system: buildSystemPrompt(settings, Boolean(sources)),
+        user: buildUserPrompt(payload, yearLevel, settings, sources),
+        maxTokens: Math.min(16000, 600 + settings.questionCount * 250),
+        dimensions: settings,
+        topic: payload.prompt,
+        check: (text) => checkQuizReply(text, payload, yearLevel, settings, sources)
+      };
     }
 
-    const sanitized: Record<string, unknown> = {
-      schemaVersion,
-      title: toNonEmptyString(quiz.title) ?? "Generated Quiz",
-      description: toNonEmptyString(quiz.description),
-      topic: toNonEmptyString(quiz.topic),
-      tags: sanitizeTags(quiz.tags),
-      yearLevel,
-      settings: {
-        questionCount: settings.questionCount,
-        choicesPerQuestion: settings.choicesPerQuestion
-      },
-      questions,
-      source: {
-        prompt: payload.prompt,
-        generator: "cloudflare-agent",
-        generatedAtUtc: new Date().toISOString()
+    // Each failed check sends the model its reply back with the problems, up to maxRepairs times.
+    const messages: ChatMessage[] = [{ role: "user", content: job.user }];
+    for (let repairs = 0; ; repairs += 1) {
+      let text: string;
+      try {
+        text = await generateQuizText(provider, job, messages, sources);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return errorResponse(message, 502);
       }
-    };
 
-    if (typeof quiz.source === "object" && quiz.source) {
-      const source = quiz.source as Record<string, unknown>;
-      sanitized.source = {
-        prompt: toNonEmptyString(source.prompt) ?? payload.prompt,
-        generator: toNonEmptyString(source.generator) ?? "cloudflare-agent",
-        generatedAtUtc: toNonEmptyString(source.generatedAtUtc) ?? new Date().toISOString()
-      };
+      const check = job.check(text);
+      if (check.ok) {
+        return jsonResponse(check.quiz, 200, { [QUIZ_REPAIRS_HEADER]: String(repairs) });
+      }
+      if (repairs >= maxRepairs) {
+        return jsonResponse({
+          error: `Model did not return a valid ${job.subject} after ${repairs} repair attempt(s)`,
+          problems: check.problems.slice(0, MAX_LISTED_PROBLEMS),
+          repairs
+        }, 502);
+      }
+      messages.push({ role: "assistant", content: text }, { role: "user", content: buildRepairPrompt(check.problems, job.subject) });
     }
-
-    return jsonResponse(sanitized);
   }
 };
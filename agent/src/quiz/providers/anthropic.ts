@@ -0,0 +1,50 @@
+import type { Env } from "../env.js";
+import { readErrorBody, type CompletionRequest, type LlmProvider } from "./types.js";
+
+const DEFAULT_MODEL = "claude-3-5-haiku-latest";
+const ANTHROPIC_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export function createAnthropicProvider(env: Env): LlmProvider {
+  const apiKey = env.ANTHROPIC_API_KEY?.trim();
+  if (!apiKey) {
+    throw new Error("ANTHROPIC_API_KEY is not set");
+  }
+  const model = env.LLM_MODEL?.trim() || DEFAULT_MODEL;
+
+  return {
+    name: "anthropic",
+    model,
+    async complete(request: CompletionRequest): Promise<string> {
+      const res = await fetch(ANTHROPIC_URL, {
+        method: "POST",
+        headers: {
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          model,
+          system: request.system,
+          // No JSON mode: prefilling the reply with "{" keeps the model from adding prose first.
+          messages: [...request.messages, { role: "assistant", content: "{" }],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens
+        })
+      });
+
+      if (!res.ok) {
+        throw new Error(`Anthropic API error ${res.status} ${res.statusText}\n${await readErrorBody(res)}`);
+      }
+
+      const data = (await res.json()) as {
+        content?: Array<{ type?: string; text?: string }>;
+      };
+      const text = data.content?.filter((block) => block.type === "text").map((block) => block.text ?? "").join("");
+      if (!text) {
+        throw new Error("Anthropic API returned empty content");
+      }
+      return `{${text}`;
+    }
+  };
+}
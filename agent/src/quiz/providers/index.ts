@@ -0,0 +1,25 @@
+import type { Env } from "../env.js";
+import { createAnthropicProvider } from "./anthropic.js";
+import { createOpenAiCompatibleProvider } from "./openAiCompatible.js";
+import { createStubProvider } from "./stub.js";
+import type { LlmProvider } from "./types.js";
+import { createWorkersAiProvider } from "./workersAi.js";
+
+export type { ChatMessage, CompletionRequest, LlmProvider, QuizDimensions } from "./types.js";
+
+const PROVIDERS: Record<string, (env: Env) => LlmProvider> = {
+  "openai": createOpenAiCompatibleProvider,
+  "anthropic": createAnthropicProvider,
+  "workers-ai": createWorkersAiProvider,
+  "stub": createStubProvider
+};
+
+/** Picks the provider named by LLM_PROVIDER (default openai). Throws if it is unknown or missing settings. */
+export function selectProvider(env: Env): LlmProvider {
+  const name = env.LLM_PROVIDER?.trim().toLowerCase() || "openai";
+  const create = PROVIDERS[name];
+  if (!create) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(", ")}`);
+  }
+  return create(env);
+}
@@ -0,0 +1,49 @@
+import type { Env } from "../env.js";
+import { readErrorBody, type CompletionRequest, type LlmProvider } from "./types.js";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+export function createOpenAiCompatibleProvider(env: Env): LlmProvider {
+  const apiKey = env.OPENAI_API_KEY?.trim();
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY is not set");
+  }
+  const model = env.LLM_MODEL?.trim() || env.OPENAI_MODEL?.trim() || DEFAULT_MODEL;
+  const url = `${(env.OPENAI_BASE_URL?.trim() || DEFAULT_BASE_URL).replace(/\/+$/, "")}/chat/completions`;
+  const jsonMode = env.OPENAI_JSON_MODE?.trim().toLowerCase() !== "false";
+
+  return {
+    name: "openai",
+    model,
+    async complete(request: CompletionRequest): Promise<string> {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${apiKey}`,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: "system", content: request.system }, ...request.messages],
+          ...(jsonMode ? { response_format: { type: "json_object" } } : {}),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens
+        })
+      });
+
+      if (!res.ok) {
+        throw new Error(`OpenAI API error ${res.status} ${res.statusText}\n${await readErrorBody(res)}`);
+      }
+
+      const data = (await res.json()) as {
+        choices?: Array<{ message?: { content?: string } }>;
+      };
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error("OpenAI API returned empty content");
+      }
+      return content;
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import type { Env } from "../env.js";
+import type { CompletionRequest, LlmProvider } from "./types.js";
+
+/**
+ * Answers without a model or network: the same request always gets the same quiz, with
+ * the requested number of questions and choices. For `wrangler dev` and tests.
+ */
+export function createStubProvider(env: Env): LlmProvider {
+  const badReplies = Number(env.STUB_BAD_REPLIES ?? 0) || 0;
+  return {
+    name: "stub",
+    model: "stub",
+    async complete(request: CompletionRequest): Promise<string> {
+      const { questionCount, choicesPerQuestion } = request.dimensions;
+      const topic = request.topic.trim().replace(/\s+/g, " ").slice(0, 60);
+      const attempt = request.messages.filter((message) => message.role === "assistant").length;
+      const questions = Array.from({ length: questionCount }, (_, idx) => {
+        const correctIndex = idx % choicesPerQuestion;
+        return {
+          id: `Q${idx + 1}`,
+          type: "multiple_choice",
+          prompt: `Stub question ${idx + 1} about ${topic}?`,
+          choices: Array.from({ length: choicesPerQuestion }, (_, choiceIdx) =>
+            choiceIdx === correctIndex ? `Correct answer ${idx + 1}` : `Distractor ${idx + 1}.${choiceIdx + 1}`
+          ),
+          correctIndex,
+          explanation: `Answer ${String.fromCharCode(65 + correctIndex)} is correct in the stub quiz.`,
+          difficulty: (["easy", "medium", "hard"] as const)[idx % 3],
+          ...(request.sourceIds?.length ? { outcomeTags: [`source:${request.sourceIds[idx % request.sourceIds.length]}`] } : {})
+        };
+      });
+      if (attempt < badReplies) {
+        // A too-short prompt and an over-long tag, both schema errors the sanitizer lets through.
+        questions[0].prompt = "Why?";
+        return JSON.stringify({ title: `Stub quiz: ${topic}`, tags: [`${"long-".repeat(8)}tag`], questions });
+      }
+      return JSON.stringify({
+        title: `Stub quiz: ${topic}`,
+        description: "Generated by the offline stub provider.",
+        topic: "Stub",
+        tags: ["stub"],
+        questions
+      });
+    }
+  };
+}
@@ -0,0 +1,34 @@
+import type { QuizDimensions } from "../../../../src/shared/quizLimits.js";
+
+export type { QuizDimensions };
+
+export type ChatMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+/** One quiz generation call: the prompts plus what the stub needs to answer without a model. */
+export type CompletionRequest = {
+  system: string;
+  /** Starts with the user's request; repairs add the rejected reply and a correction. */
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  /** The teacher's prompt, before it is wrapped in the first message. */
+  topic: string;
+  dimensions: QuizDimensions;
+  /** Ids of the source pages a grounded request must cite. */
+  sourceIds?: string[];
+};
+
+export type LlmProvider = {
+  /** As set in LLM_PROVIDER. */
+  name: string;
+  model: string;
+  /** Returns the model's text; callers extract and check the JSON. */
+  complete(request: CompletionRequest): Promise<string>;
+};
+
+export async function readErrorBody(res: Response): Promise<string> {
+  return res.text().catch(() => "");
+}
@@ -0,0 +1,71 @@
+import type { Env } from "../env.js";
+import type { CompletionRequest, LlmProvider, QuizDimensions } from "./types.js";
+
+const DEFAULT_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+
+/**
+ * Workers AI JSON mode takes a schema rather than a flag. This only pins the shape the
+ * worker reads back; the worker still sanitizes and the CLI validates the full schema.
+ */
+function quizResponseSchema(dimensions: QuizDimensions): Record<string, unknown> {
+  return {
+    type: "object",
+    required: ["title", "questions"],
+    properties: {
+      title: { type: "string" },
+      description: { type: "string" },
+      topic: { type: "string" },
+      tags: { type: "array", items: { type: "string" } },
+      questions: {
+        type: "array",
+        minItems: dimensions.questionCount,
+        maxItems: dimensions.questionCount,
+        items: {
+          type: "object",
+          required: ["prompt", "choices", "correctIndex"],
+          properties: {
+            prompt: { type: "string" },
+            choices: {
+              type: "array",
+              minItems: dimensions.choicesPerQuestion,
+              maxItems: dimensions.choicesPerQuestion,
+              items: { type: "string" }
+            },
+            correctIndex: { type: "integer", minimum: 0, maximum: dimensions.choicesPerQuestion - 1 },
+            explanation: { type: "string" },
+            difficulty: { type: "string", enum: ["easy", "medium", "hard"] },
+            outcomeTags: { type: "array", items: { type: "string" } }
+          }
+        }
+      }
+    }
+  };
+}
+
+/** Cloudflare Workers AI through the `AI` binding (`[ai] binding = "AI"` in wrangler.toml). */
+export function createWorkersAiProvider(env: Env): LlmProvider {
+  const ai = env.AI;
+  if (!ai) {
+    throw new Error("The AI binding is not configured; add [ai] binding = \"AI\" to wrangler.toml");
+  }
+  const model = env.LLM_MODEL?.trim() || DEFAULT_MODEL;
+
+  return {
+    name: "workers-ai",
+    model,
+    async complete(request: CompletionRequest): Promise<string> {
+      const result = (await ai.run(model, {
+        messages: [{ role: "system", content: request.system }, ...request.messages],
+        response_format: { type: "json_schema", json_schema: quizResponseSchema(request.dimensions) },
+        temperature: request.temperature,
+        max_tokens: request.maxTokens
+      })) as { response?: unknown };
+
+      // JSON mode returns the parsed object on some models and a string on others.
+      const response = result?.response;
+      if (typeof response === "string" && response.trim()) return response;
+      if (typeof response === "object" && response !== null) return JSON.stringify(response);
+      throw new Error("Workers AI returned empty content");
+    }
+  };
+}
@@ -0,0 +1,32 @@
+// Generates src/shared/nexgenQuiz.generated.ts from schemas/nexgen-quiz.v1.schema.json, so the
+// CLI and the agent worker type quizzes from the schema itself. `--check` fails if the file is stale.
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { compile } from "json-schema-to-typescript";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const schema = JSON.parse(await fs.readFile(path.join(root, "schemas", "nexgen-quiz.v1.schema.json"), "utf8"));
+const outFile = path.join(root, "src", "shared", "nexgenQuiz.generated.ts");
+
+// The only allOf is the yearLevel max >= min check ($data), which types cannot express.
+delete schema.allOf;
+
+const types = await compile(schema, "NexgenQuizV1", {
+  bannerComment: "// Generated from schemas/nexgen-quiz.v1.schema.json by scripts/generate-quiz-types.mjs. Do not edit.",
+  additionalProperties: false,
+  ignoreMinAndMaxItems: true,
+  style: { printWidth: 120, singleQuote: false, trailingComma: "none" }
+});
+
+if (process.argv.includes("--check")) {
+  const current = await fs.readFile(outFile, "utf8").catch(() => "");
+  if (current !== types) {
+    console.error(`${path.relative(root, outFile)} is out of date. Run npm run generate:types.`);
+    process.exit(1);
+  }
+  console.log(`${path.relative(root, outFile)} is up to date.`);
+} else {
+  await fs.writeFile(outFile, types, "utf8");
+  console.log(`Wrote ${path.relative(root, outFile)}`);
+}
@@ -1,6 +1,24 @@
 import { env } from "../../env.js";
+import { QUIZ_LIMITS, type QuizDimensions } from "../../shared/quizLimits.js";
+import type { NexgenQuizV1 } from "../../quiz/types.js";
+import { QUIZ_REPAIRS_HEADER, type QuizAgentRequest, type QuizSource } from "../../shared/quizAgentContract.js";
 
-export async function generateQuizFromAgent(prompt: string): Promise<unknown> {
+export type AgentQuizResult = {
+  raw: unknown;
+  /** Correction rounds the agent needed before its model returned a valid quiz (`X-Quiz-Repairs`). */
+  repairs: number;
+};
+
+export type RegenerateQuestionOptions = {
+  /** The prompt the quiz was generated from. */
+  prompt: string;
+  questionId: string;
+  /** What the teacher wants changed; optional. */
+  instructions?: string;
+  sources?: QuizSource[];
+};
+
+async function postToAgent(request: QuizAgentRequest): Promise<AgentQuizResult> {
   if (!env.quizAgentUrl) {
     throw new Error("QUIZ_AGENT_URL is not set. For now use --from-file.");
   }
@@ -11,12 +29,7 @@ export async function generateQuizFromAgent(prompt: string): Promise<unknown> {
       "Content-Type": "application/json",
       ...(env.quizAgentApiKey ? { "Authorization": `Bearer ${env.quizAgentApiKey}` } : {})
     },
-    body: JSON.stringify({
-      prompt,
-      schemaVersion: "nexgen-quiz.v1",
-      settings: { questionCount: 5, choicesPerQuestion: 4 },
-      yearLevel: { min: 7, max: 10 }
-    })
+    body: JSON.stringify({ schemaVersion: "nexgen-quiz.v1", yearLevel: { min: QUIZ_LIMITS.minYearLevel, max: QUIZ_LIMITS.maxYearLevel }, ...request })
   });
 
   if (!res.ok) {
@@ -24,5 +37,38 @@ export async function generateQuizFromAgent(prompt: string): Promise<unknown> {
     throw new Error(`Quiz agent error ${res.status} ${res.statusText}\n${text}`);
   }
 
-  return res.json();
+  return { raw: await res.json(), repairs: Number(res.headers.get(QUIZ_REPAIRS_HEADER) ?? 0) || 0 };
+}
+
+/** With `sources`, the agent writes questions only from that material and cites it per question. */
+export async function generateQuizFromAgent(
+  prompt: string,
+  dimensions: QuizDimensions,
+  sources?: QuizSource[]
+): Promise<AgentQuizResult> {
+  return postToAgent({
+    prompt,
+    settings: {
+      questionCount: dimensions.questionCount,
+      choicesPerQuestion: dimensions.choicesPerQuestion
+    },
+    ...(sources ? { sources } : {})
+  });
+}
+
+/**
+ * Asks the agent for a new version of one question, with the rest of the quiz as context so the
+ * replacement does not repeat them. The result is the whole quiz with only that question changed.
+ */
+export async function regenerateQuestionWithAgent(
+  quiz: NexgenQuizV1,
+  options: RegenerateQuestionOptions
+): Promise<AgentQuizResult> {
+  return postToAgent({
+    prompt: options.prompt,
+    yearLevel: quiz.yearLevel,
+    settings: quiz.settings,
+    regenerate: { quiz, questionId: options.questionId, instructions: options.instructions },
+    ...(options.sources ? { sources: options.sources } : {})
+  });
 }
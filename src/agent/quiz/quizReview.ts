@@ -0,0 +1,153 @@
+import { spawnSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import readline from "node:readline/promises";
+import { validateNexgenQuizV1 } from "../../quiz/schema/validate.js";
+import type { NexgenQuizV1 } from "../../quiz/types.js";
+import type { QuizSource } from "../../shared/quizAgentContract.js";
+import { regenerateQuestionWithAgent } from "./quizAgentClient.js";
+import { questionCitations } from "./quizSources.js";
+
+export type QuizReviewOptions = {
+  /** The prompt the quiz was generated from, sent again when a question is regenerated. */
+  prompt: string;
+  sources?: QuizSource[];
+};
+
+export type QuizReviewResult = {
+  quiz: NexgenQuizV1;
+  rejected: number;
+  edited: number;
+  regenerated: number;
+};
+
+type ReviewQuestion = NexgenQuizV1["questions"][number];
+
+const ACTIONS = "[a]ccept, [r]eject, [e]dit, [g]enerate again, accept [A]ll remaining, [q]uit";
+const LETTERS = "ABCDEF";
+
+/** A fresh interface per question, so an editor can have the terminal in between. */
+async function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return (await rl.question(question)).trim();
+  } finally {
+    rl.close();
+  }
+}
+
+function formatQuestion(quiz: NexgenQuizV1, idx: number, sources: QuizSource[] | undefined): string {
+  const question = quiz.questions[idx];
+  const details = [question.id, question.difficulty].filter(Boolean).join(", ");
+  const lines = [`\nQuestion ${idx + 1} of ${quiz.questions.length} (${details})`, `  ${question.prompt}`];
+  question.choices.forEach((choice, choiceIdx) => {
+    lines.push(`  ${choiceIdx === question.correctIndex ? "(x)" : "( )"} ${LETTERS[choiceIdx]}. ${choice}`);
+  });
+  if (question.explanation) lines.push(`  Explanation: ${question.explanation}`);
+  if (sources) {
+    const titles = questionCitations({ ...quiz, questions: [question] }, sources)[0].titles;
+    lines.push(`  Source: ${titles.length > 0 ? titles.join(", ") : "(none cited)"}`);
+  }
+  return lines.join("\n");
+}
+
+function withQuestions(quiz: NexgenQuizV1, questions: ReviewQuestion[]): NexgenQuizV1 {
+  return { ...quiz, settings: { ...quiz.settings, questionCount: questions.length }, questions };
+}
+
+/**
+ * Opens the question as JSON in $VISUAL / $EDITOR and returns the quiz with the edited version,
+ * validated like any quiz file. Its id is kept. Returns undefined if nothing changed.
+ */
+async function editQuestion(quiz: NexgenQuizV1, idx: number): Promise<NexgenQuizV1 | undefined> {
+  const original = quiz.questions[idx];
+  const file = path.join(os.tmpdir(), `nexgen-review-${process.pid}-${original.id}.json`);
+  const before = `${JSON.stringify(original, null, 2)}\n`;
+  await fs.writeFile(file, before, "utf8");
+  try {
+    const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === "win32" ? "notepad" : "vi");
+    const result = spawnSync(`${editor} "${file}"`, { stdio: "inherit", shell: true });
+    if (result.status !== 0) throw new Error(`Editor "${editor}" exited with code ${result.status ?? "unknown"}.`);
+    const after = await fs.readFile(file, "utf8");
+    if (after === before) return undefined;
+
+    let edited: ReviewQuestion;
+    try {
+      edited = JSON.parse(after) as ReviewQuestion;
+    } catch (err) {
+      throw new Error(`Edited question is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const questions = quiz.questions.map((question, qIdx) => (qIdx === idx ? { ...edited, id: original.id } : question));
+    return validateNexgenQuizV1(withQuestions(quiz, questions));
+  } finally {
+    await fs.rm(file, { force: true });
+  }
+}
+
+/**
+ * Walks the teacher through each generated question in the terminal. Rejected questions are
+ * dropped and the rest renumbered Q1..Qn; edits and regenerated questions are validated before
+ * they replace the original, and a failed attempt leaves the question as it was.
+ * Returns undefined if the teacher quits.
+ */
+export async function reviewQuiz(quiz: NexgenQuizV1, options: QuizReviewOptions): Promise<QuizReviewResult | undefined> {
+  let current = quiz;
+  const result = { rejected: 0, edited: 0, regenerated: 0 };
+  console.log(`\nReview ${quiz.questions.length} generated question(s). For each: ${ACTIONS}.`);
+
+  let idx = 0;
+  while (idx < current.questions.length) {
+    console.log(formatQuestion(current, idx, options.sources));
+    const action = await ask(`${ACTIONS}: `);
+    try {
+      switch (action) {
+        case "a":
+          idx += 1;
+          break;
+        case "A":
+          idx = current.questions.length;
+          break;
+        case "r":
+          current = withQuestions(current, current.questions.filter((_, qIdx) => qIdx !== idx));
+          result.rejected += 1;
+          break;
+        case "e": {
+          const edited = await editQuestion(current, idx);
+          if (edited) {
+            current = edited;
+            result.edited += 1;
+          } else {
+            console.log("No changes.");
+          }
+          break;
+        }
+        case "g": {
+          const instructions = await ask("What should change? (Enter to just try again): ");
+          console.log("Asking the agent for a new version...");
+          const regenerated = await regenerateQuestionWithAgent(current, {
+            prompt: options.prompt,
+            questionId: current.questions[idx].id,
+            instructions: instructions || undefined,
+            sources: options.sources
+          });
+          current = validateNexgenQuizV1(regenerated.raw);
+          result.regenerated += 1;
+          break;
+        }
+        case "q":
+          return undefined;
+        default:
+          console.log("Type a, r, e, g, A or q.");
+      }
+    } catch (err) {
+      console.error(`${err instanceof Error ? err.message : String(err)}\nThe question is unchanged.`);
+    }
+  }
+
+  if (current.questions.length === 0) {
+    throw new Error("Every question was rejected; nothing to upload.");
+  }
+  const renumbered = current.questions.map((question, qIdx) => ({ ...question, id: `Q${qIdx + 1}` }));
+  return { quiz: validateNexgenQuizV1(withQuestions(current, renumbered)), ...result };
+}
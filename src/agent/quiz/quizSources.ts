@@ -0,0 +1,55 @@
+import { createHash } from "node:crypto";
+import type { SessionPageContext } from "../../session/sessionPages.js";
+import { SOURCE_TAG_PREFIX, type QuizSource } from "../../shared/quizAgentContract.js";
+import type { NexgenQuizV1 } from "../../quiz/types.js";
+
+export type QuizSourceSet = {
+  sources: QuizSource[];
+  /** Titles of pages cut short or left out to stay within the request budget. */
+  truncated: string[];
+};
+
+export type QuestionCitation = {
+  questionId: string;
+  /** Titles of the cited pages; empty when the question cites none the CLI sent. */
+  titles: string[];
+};
+
+// Schema limit for one outcome tag; the id has to fit after the prefix.
+const MAX_OUTCOME_TAG_LENGTH = 40;
+const MAX_SOURCE_ID_LENGTH = MAX_OUTCOME_TAG_LENGTH - SOURCE_TAG_PREFIX.length;
+const MAX_PAGE_CHARS = 8000;
+const MAX_TOTAL_CHARS = 40000;
+
+/** The page url slug, or a shortened slug with a hash suffix when the tag would be too long. */
+function sourceId(pageUrl: string): string {
+  if (pageUrl.length <= MAX_SOURCE_ID_LENGTH) return pageUrl;
+  const hash = createHash("sha256").update(pageUrl).digest("hex").slice(0, 6);
+  return `${pageUrl.slice(0, MAX_SOURCE_ID_LENGTH - hash.length - 1).replace(/-+$/, "")}-${hash}`;
+}
+
+/** Session pages as agent sources, in module order, skipping empty pages and capping the text sent. */
+export function buildQuizSources(pages: SessionPageContext[]): QuizSourceSet {
+  const sources: QuizSource[] = [];
+  const truncated: string[] = [];
+  let budget = MAX_TOTAL_CHARS;
+  for (const page of pages) {
+    const text = page.bodyText.trim();
+    if (!text) continue;
+    const limit = Math.min(MAX_PAGE_CHARS, budget);
+    if (text.length > limit) truncated.push(page.title);
+    if (limit <= 0) continue;
+    sources.push({ id: sourceId(page.pageUrl), title: page.title, text: text.slice(0, limit) });
+    budget -= Math.min(text.length, limit);
+  }
+  return { sources, truncated };
+}
+
+/** Which pages each question cites, for reporting what the agent based it on. */
+export function questionCitations(quiz: NexgenQuizV1, sources: QuizSource[]): QuestionCitation[] {
+  const titles = new Map(sources.map((source) => [`${SOURCE_TAG_PREFIX}${source.id}`, source.title]));
+  return quiz.questions.map((question) => ({
+    questionId: question.id,
+    titles: (question.outcomeTags ?? []).flatMap((tag) => titles.get(tag) ?? [])
+  }));
+}
@@ -0,0 +1,44 @@
+export type CanvasApiErrorDetails = {
+  status: number;
+  statusText: string;
+  method: string;
+  path: string;
+  body: string;
+  attempts: number;
+  cause?: unknown;
+};
+
+/**
+ * Raised for any Canvas request that ultimately fails, after retries are exhausted.
+ * `status` is 0 when no HTTP response was received (network failure or timeout).
+ */
+export class CanvasApiError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly method: string;
+  readonly path: string;
+  readonly body: string;
+  readonly attempts: number;
+
+  constructor(details: CanvasApiErrorDetails) {
+    const summary = details.status === 0
+      ? `Canvas request failed (${details.statusText})`
+      : `Canvas API error ${details.status} ${details.statusText}`;
+    const retries = details.attempts > 1 ? ` after ${details.attempts} attempts` : "";
+    super(
+      `${summary} for ${details.method} ${details.path}${retries}${details.body ? `\n${details.body}` : ""}`,
+      details.cause === undefined ? undefined : { cause: details.cause }
+    );
+    this.name = "CanvasApiError";
+    this.status = details.status;
+    this.statusText = details.statusText;
+    this.method = details.method;
+    this.path = details.path;
+    this.body = details.body;
+    this.attempts = details.attempts;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+}
@@ -1,4 +1,5 @@
 import { env } from "../env.js";
+import { CanvasApiError } from "./canvasApiError.js";
 
 type FetchOptions = {
   method?: string;
@@ -6,6 +7,23 @@ type FetchOptions = {
   body?: unknown;
 };
 
+export type CanvasClientOptions = {
+  /** Per-attempt request timeout in milliseconds. */
+  timeoutMs?: number;
+  /** How many times a throttled or transiently failing request is retried. */
+  maxRetries?: number;
+  /** Base delay for exponential backoff between retries. */
+  retryBaseDelayMs?: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
+// Canvas throttles per token with a leaky bucket (roughly 700 units); slow down before it runs dry.
+const RATE_LIMIT_LOW_WATERMARK = 100;
+const RATE_LIMIT_PAUSE_MS = 1_000;
+
 export type CanvasModuleSummary = {
   id: number;
   name: string;
@@ -17,6 +35,105 @@ export type CanvasModuleItem = {
   type: string;
   position: number;
   page_url?: string | null;
+  content_id?: number | null;
+};
+
+export type CanvasQuiz = {
+  id: number;
+  title: string;
+  html_url?: string;
+  description?: string | null;
+  published?: boolean;
+  question_count?: number;
+  time_limit?: number | null;
+  allowed_attempts?: number;
+  shuffle_answers?: boolean;
+  show_correct_answers?: boolean;
+  one_question_at_a_time?: boolean;
+  access_code?: string | null;
+  due_at?: string | null;
+  unlock_at?: string | null;
+  lock_at?: string | null;
+  scoring_policy?: "keep_highest" | "keep_latest" | null;
+  assignment_group_id?: number | null;
+};
+
+// Writable quiz settings. `null` clears a value (e.g. removes a due date).
+export type CanvasQuizSettings = {
+  shuffle_answers?: boolean;
+  time_limit?: number | null;
+  allowed_attempts?: number;
+  show_correct_answers?: boolean;
+  one_question_at_a_time?: boolean;
+  access_code?: string | null;
+  due_at?: string | null;
+  unlock_at?: string | null;
+  lock_at?: string | null;
+  scoring_policy?: "keep_highest" | "keep_latest";
+  assignment_group_id?: number;
+};
+
+// Shape of answers as Canvas returns them; the write API uses `answer_*` names instead.
+export type CanvasQuizAnswerRecord = {
+  id?: number;
+  text?: string;
+  html?: string;
+  weight?: number;
+  numerical_answer_type?: string;
+  exact?: number;
+  margin?: number;
+  left?: string;
+  right?: string;
+  comments?: string;
+  comments_html?: string;
+};
+
+export type CanvasQuizQuestionRecord = {
+  id: number;
+  quiz_id: number;
+  position?: number | null;
+  question_name: string;
+  question_text: string;
+  question_type: string;
+  points_possible: number;
+  answers?: CanvasQuizAnswerRecord[];
+  matching_answer_incorrect_matches?: string | null;
+  correct_comments?: string | null;
+  incorrect_comments?: string | null;
+  neutral_comments?: string | null;
+  neutral_comments_html?: string | null;
+  quiz_group_id?: number | null;
+};
+
+/** Write shape for quiz groups; Canvas picks `pick_count` of the group's questions per attempt. */
+export type CanvasQuizGroupSettings = {
+  name: string;
+  pick_count: number;
+  question_points: number;
+};
+
+export type CanvasQuizGroup = CanvasQuizGroupSettings & {
+  id: number;
+  quiz_id: number;
+  position?: number | null;
+};
+
+export type CanvasFile = {
+  id: number;
+  display_name: string;
+  filename: string;
+  url?: string;
+  size?: number;
+  "content-type"?: string;
+  folder_id?: number;
+};
+
+export type CanvasFileUpload = {
+  name: string;
+  contentType: string;
+  bytes: Uint8Array;
+  /** Course folder path, created by Canvas if missing (e.g. "quiz-images"). */
+  folderPath: string;
 };
 
 export type CanvasPage = {
@@ -27,40 +144,187 @@ export type CanvasPage = {
   published?: boolean;
 };
 
+/**
+ * Extracts the `rel="next"` target from a Canvas `Link` header, e.g.
+ * `<https://canvas.example/api/v1/courses/1/pages?page=2>; rel="next", <...>; rel="last"`.
+ */
+export function parseNextLink(header: string | null): string | undefined {
+  if (!header) return undefined;
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/i);
+    if (match && match[2].split(/\s+/).includes("next")) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isIdempotent(method: string): boolean {
+  return method === "GET" || method === "PUT" || method === "DELETE";
+}
+
+/**
+ * Throttling responses are always safe to retry because Canvas rejected the request before
+ * processing it. Server errors are only retried for idempotent methods: a gateway error or
+ * 500 can arrive after Canvas applied the request, so replaying a POST may create duplicates.
+ */
+function isRetryableStatus(status: number, method: string, body: string): boolean {
+  if (status === 429) return true;
+  if (status === 403 && /rate limit exceeded/i.test(body)) return true;
+  if (status === 500 || status === 502 || status === 503 || status === 504) return isIdempotent(method);
+  return false;
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number, baseDelayMs: number): number {
+  const exponential = baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * baseDelayMs;
+  return Math.min(MAX_RETRY_DELAY_MS, exponential + jitter);
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
 export class CanvasClient {
   private baseUrl: string;
   private token: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private pauseUntil = 0;
 
-  constructor(baseUrl = env.canvasBaseUrl, token = env.canvasApiToken) {
+  constructor(
+    baseUrl = env.canvasBaseUrl,
+    token = env.canvasApiToken,
+    options: CanvasClientOptions = {}
+  ) {
     this.baseUrl = baseUrl.replace(/\/+$/, "");
     this.token = token;
+    this.timeoutMs = options.timeoutMs ?? env.canvasRequestTimeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? env.canvasMaxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
   }
 
-  private async request<T>(opts: FetchOptions): Promise<T> {
-    const url = `${this.baseUrl}${opts.path}`;
-    const res = await fetch(url, {
-      method: opts.method ?? "GET",
-      headers: {
-        "Authorization": `Bearer ${this.token}`,
-        "Content-Type": "application/json"
-      },
-      body: opts.body ? JSON.stringify(opts.body) : undefined
-    });
+  private resolveUrl(pathOrUrl: string): string {
+    if (!/^https?:\/\//i.test(pathOrUrl)) {
+      return `${this.baseUrl}${pathOrUrl}`;
+    }
+    // Pagination links come back as absolute URLs; never send the token anywhere else.
+    if (new URL(pathOrUrl).origin !== new URL(this.baseUrl).origin) {
+      throw new Error(`Refusing to follow Canvas link to a different origin: ${pathOrUrl}`);
+    }
+    return pathOrUrl;
+  }
+
+  private async send(opts: FetchOptions): Promise<Response> {
+    const method = opts.method ?? "GET";
+    const url = this.resolveUrl(opts.path);
+
+    for (let attempt = 0; ; attempt += 1) {
+      const waitMs = this.pauseUntil - Date.now();
+      if (waitMs > 0) await sleep(waitMs);
+
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method,
+          headers: {
+            "Authorization": `Bearer ${this.token}`,
+            "Content-Type": "application/json"
+          },
+          body: opts.body ? JSON.stringify(opts.body) : undefined,
+          signal: AbortSignal.timeout(this.timeoutMs)
+        });
+      } catch (err) {
+        // Without a response we cannot tell whether Canvas applied the request.
+        if (attempt < this.maxRetries && isIdempotent(method)) {
+          await sleep(backoffDelay(attempt, this.retryBaseDelayMs));
+          continue;
+        }
+        const timedOut = err instanceof Error && err.name === "TimeoutError";
+        throw new CanvasApiError({
+          status: 0,
+          statusText: timedOut ? `timed out after ${this.timeoutMs}ms` : "network error",
+          method,
+          path: opts.path,
+          body: err instanceof Error ? err.message : String(err),
+          attempts: attempt + 1,
+          cause: err
+        });
+      }
+
+      this.trackRateLimit(res.headers);
+      if (res.ok) return res;
 
-    if (!res.ok) {
       const text = await res.text().catch(() => "");
-      throw new Error(`Canvas API error ${res.status} ${res.statusText} for ${opts.method ?? "GET"} ${opts.path}\n${text}`);
+      if (attempt < this.maxRetries && isRetryableStatus(res.status, method, text)) {
+        const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
+        await sleep(retryAfter ?? backoffDelay(attempt, this.retryBaseDelayMs));
+        continue;
+      }
+
+      throw new CanvasApiError({
+        status: res.status,
+        statusText: res.statusText,
+        method,
+        path: opts.path,
+        body: text,
+        attempts: attempt + 1
+      });
+    }
+  }
+
+  private trackRateLimit(headers: Headers): void {
+    const remaining = Number(headers.get("X-Rate-Limit-Remaining"));
+    if (headers.has("X-Rate-Limit-Remaining") && Number.isFinite(remaining) && remaining < RATE_LIMIT_LOW_WATERMARK) {
+      this.pauseUntil = Date.now() + RATE_LIMIT_PAUSE_MS;
     }
+  }
 
+  private async request<T>(opts: FetchOptions): Promise<T> {
+    const res = await this.send(opts);
+    if (res.status === 204) {
+      return undefined as T;
+    }
     return (await res.json()) as T;
   }
 
-  async createQuiz(courseId: number, quiz: {
+  /**
+   * Yields every item of a Canvas list endpoint, following `rel="next"` Link headers
+   * until the last page has been read.
+   */
+  private async *paginate<T>(path: string): AsyncGenerator<T, void, undefined> {
+    let next: string | undefined = path;
+    while (next) {
+      const res = await this.send({ method: "GET", path: next });
+      const page = (await res.json()) as T[];
+      for (const item of page) {
+        yield item;
+      }
+      next = parseNextLink(res.headers.get("Link"));
+    }
+  }
+
+  async createQuiz(courseId: number, quiz: CanvasQuizSettings & {
     title: string;
     description?: string;
     published?: boolean;
-    time_limit?: number;
-    allowed_attempts?: number;
   }): Promise<{ id: number; html_url?: string; title: string }> {
     return this.request({
       method: "POST",
@@ -69,6 +333,40 @@ export class CanvasClient {
     });
   }
 
+  async getQuiz(courseId: number, quizId: number): Promise<CanvasQuiz> {
+    return this.request({
+      method: "GET",
+      path: `/api/v1/courses/${courseId}/quizzes/${quizId}`
+    });
+  }
+
+  async deleteQuiz(courseId: number, quizId: number): Promise<void> {
+    await this.request<unknown>({
+      method: "DELETE",
+      path: `/api/v1/courses/${courseId}/quizzes/${quizId}`
+    });
+  }
+
+  iterateQuizzes(courseId: number, searchTerm?: string): AsyncGenerator<CanvasQuiz, void, undefined> {
+    const params = new URLSearchParams({ per_page: "100" });
+    if (searchTerm && searchTerm.trim().length > 0) {
+      params.set("search_term", searchTerm.trim());
+    }
+    return this.paginate(`/api/v1/courses/${courseId}/quizzes?${params.toString()}`);
+  }
+
+  async listQuizzes(courseId: number, searchTerm?: string): Promise<CanvasQuiz[]> {
+    return collect(this.iterateQuizzes(courseId, searchTerm));
+  }
+
+  iterateQuizQuestions(courseId: number, quizId: number): AsyncGenerator<CanvasQuizQuestionRecord, void, undefined> {
+    return this.paginate(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions?per_page=100`);
+  }
+
+  async listQuizQuestions(courseId: number, quizId: number): Promise<CanvasQuizQuestionRecord[]> {
+    return collect(this.iterateQuizQuestions(courseId, quizId));
+  }
+
   async addQuizQuestion(courseId: number, quizId: number, question: unknown): Promise<{ id: number }> {
     return this.request({
       method: "POST",
@@ -77,7 +375,69 @@ export class CanvasClient {
     });
   }
 
-  async updateQuiz(courseId: number, quizId: number, quiz: { published?: boolean }): Promise<{ id: number; published?: boolean; question_count?: number }> {
+  async updateQuizQuestion(
+    courseId: number,
+    quizId: number,
+    questionId: number,
+    question: unknown
+  ): Promise<CanvasQuizQuestionRecord> {
+    return this.request({
+      method: "PUT",
+      path: `/api/v1/courses/${courseId}/quizzes/${quizId}/questions/${questionId}`,
+      body: { question }
+    });
+  }
+
+  async deleteQuizQuestion(courseId: number, quizId: number, questionId: number): Promise<void> {
+    await this.request<unknown>({
+      method: "DELETE",
+      path: `/api/v1/courses/${courseId}/quizzes/${quizId}/questions/${questionId}`
+    });
+  }
+
+  // Canvas has no endpoint listing a quiz's groups; find their ids via `quiz_group_id` on questions.
+  async getQuizGroup(courseId: number, quizId: number, groupId: number): Promise<CanvasQuizGroup> {
+    return this.request({
+      method: "GET",
+      path: `/api/v1/courses/${courseId}/quizzes/${quizId}/groups/${groupId}`
+    });
+  }
+
+  async createQuizGroup(courseId: number, quizId: number, group: CanvasQuizGroupSettings): Promise<CanvasQuizGroup> {
+    const res = await this.request<{ quiz_groups: CanvasQuizGroup[] }>({
+      method: "POST",
+      path: `/api/v1/courses/${courseId}/quizzes/${quizId}/groups`,
+      body: { quiz_groups: [group] }
+    });
+    return res.quiz_groups[0];
+  }
+
+  async updateQuizGroup(
+    courseId: number,
+    quizId: number,
+    groupId: number,
+    group: Partial<CanvasQuizGroupSettings>
+  ): Promise<CanvasQuizGroup> {
+    const res = await this.request<{ quiz_groups: CanvasQuizGroup[] }>({
+      method: "PUT",
+      path: `/api/v1/courses/${courseId}/quizzes/${quizId}/groups/${groupId}`,
+      body: { quiz_groups: [group] }
+    });
+    return res.quiz_groups[0];
+  }
+
+  async deleteQuizGroup(courseId: number, quizId: number, groupId: number): Promise<void> {
+    await this.request<unknown>({
+      method: "DELETE",
+      path: `/api/v1/courses/${courseId}/quizzes/${quizId}/groups/${groupId}`
+    });
+  }
+
+  async updateQuiz(courseId: number, quizId: number, quiz: CanvasQuizSettings & {
+    title?: string;
+    description?: string;
+    published?: boolean;
+  }): Promise<{ id: number; published?: boolean; question_count?: number }> {
     return this.request({
       method: "PUT",
       path: `/api/v1/courses/${courseId}/quizzes/${quizId}`,
@@ -85,33 +445,110 @@ export class CanvasClient {
     });
   }
 
-  async listModules(courseId: number, searchTerm?: string): Promise<CanvasModuleSummary[]> {
+  iterateCourseFiles(courseId: number, searchTerm?: string): AsyncGenerator<CanvasFile, void, undefined> {
     const params = new URLSearchParams({ per_page: "100" });
     if (searchTerm && searchTerm.trim().length > 0) {
       params.set("search_term", searchTerm.trim());
     }
-    return this.request({
-      method: "GET",
-      path: `/api/v1/courses/${courseId}/modules?${params.toString()}`
+    return this.paginate(`/api/v1/courses/${courseId}/files?${params.toString()}`);
+  }
+
+  async listCourseFiles(courseId: number, searchTerm?: string): Promise<CanvasFile[]> {
+    return collect(this.iterateCourseFiles(courseId, searchTerm));
+  }
+
+  /**
+   * Canvas file upload: announce the file, POST it to the returned upload URL (which may be
+   * another host, so no token goes with it), then confirm if Canvas answers with a redirect.
+   */
+  async uploadCourseFile(courseId: number, file: CanvasFileUpload): Promise<CanvasFile> {
+    const path = `/api/v1/courses/${courseId}/files`;
+    const ticket = await this.request<{ upload_url: string; upload_params: Record<string, string> }>({
+      method: "POST",
+      path,
+      body: {
+        name: file.name,
+        size: file.bytes.byteLength,
+        content_type: file.contentType,
+        parent_folder_path: file.folderPath,
+        on_duplicate: "rename"
+      }
     });
+
+    const form = new FormData();
+    for (const [key, value] of Object.entries(ticket.upload_params)) {
+      form.append(key, value);
+    }
+    // The file must be the last field.
+    form.append("file", new Blob([new Uint8Array(file.bytes)], { type: file.contentType }), file.name);
+
+    let res: Response;
+    try {
+      res = await fetch(ticket.upload_url, {
+        method: "POST",
+        body: form,
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (err) {
+      throw new CanvasApiError({
+        status: 0,
+        statusText: err instanceof Error && err.name === "TimeoutError" ? `timed out after ${this.timeoutMs}ms` : "network error",
+        method: "POST",
+        path: `${path} (upload of ${file.name})`,
+        body: err instanceof Error ? err.message : String(err),
+        attempts: 1,
+        cause: err
+      });
+    }
+
+    const location = res.headers.get("Location");
+    if (res.status >= 300 && res.status < 400 && location) {
+      return this.request({ method: "GET", path: location });
+    }
+    if (!res.ok) {
+      throw new CanvasApiError({
+        status: res.status,
+        statusText: res.statusText,
+        method: "POST",
+        path: `${path} (upload of ${file.name})`,
+        body: await res.text().catch(() => ""),
+        attempts: 1
+      });
+    }
+    return (await res.json()) as CanvasFile;
+  }
+
+  iterateModules(courseId: number, searchTerm?: string): AsyncGenerator<CanvasModuleSummary, void, undefined> {
+    const params = new URLSearchParams({ per_page: "100" });
+    if (searchTerm && searchTerm.trim().length > 0) {
+      params.set("search_term", searchTerm.trim());
+    }
+    return this.paginate(`/api/v1/courses/${courseId}/modules?${params.toString()}`);
+  }
+
+  async listModules(courseId: number, searchTerm?: string): Promise<CanvasModuleSummary[]> {
+    return collect(this.iterateModules(courseId, searchTerm));
+  }
+
+  iterateModuleItems(courseId: number, moduleId: number): AsyncGenerator<CanvasModuleItem, void, undefined> {
+    return this.paginate(`/api/v1/courses/${courseId}/modules/${moduleId}/items?per_page=100`);
   }
 
   async listModuleItems(courseId: number, moduleId: number): Promise<CanvasModuleItem[]> {
-    return this.request({
-      method: "GET",
-      path: `/api/v1/courses/${courseId}/modules/${moduleId}/items?per_page=100`
-    });
+    return collect(this.iterateModuleItems(courseId, moduleId));
   }
 
-  async listPages(courseId: number, searchTerm?: string): Promise<CanvasPage[]> {
+  iteratePages(courseId: number, searchTerm?: string): AsyncGenerator<CanvasPage, void, undefined> {
     const params = new URLSearchParams({ per_page: "100" });
     if (searchTerm && searchTerm.trim().length > 0) {
       params.set("search_term", searchTerm.trim());
     }
-    return this.request({
-      method: "GET",
-      path: `/api/v1/courses/${courseId}/pages?${params.toString()}`
-    });
+    return this.paginate(`/api/v1/courses/${courseId}/pages?${params.toString()}`);
+  }
+
+  async listPages(courseId: number, searchTerm?: string): Promise<CanvasPage[]> {
+    return collect(this.iteratePages(courseId, searchTerm));
   }
 
   async getPage(courseId: number, pageUrl: string): Promise<CanvasPage> {
@@ -186,6 +623,25 @@ export class CanvasClient {
     });
   }
 
+  async createModuleQuizItem(
+    courseId: number,
+    moduleId: number,
+    input: { title?: string; quizId: number; position?: number }
+  ): Promise<CanvasModuleItem> {
+    return this.request({
+      method: "POST",
+      path: `/api/v1/courses/${courseId}/modules/${moduleId}/items`,
+      body: {
+        module_item: {
+          type: "Quiz",
+          title: input.title,
+          content_id: input.quizId,
+          position: input.position
+        }
+      }
+    });
+  }
+
   async updateModuleItemPosition(
     courseId: number,
     moduleId: number,
@@ -1,77 +1,601 @@
 import { Command } from "commander";
 import fs from "node:fs/promises";
+import path from "node:path";
 import { env } from "./env.js";
-import { validateNexgenQuiz } from "./quiz/schema/validate.js";
+import { assertQuizMatchesDimensions, validateNexgenQuiz, validateNexgenQuizV1 } from "./quiz/schema/validate.js";
+import {
+  renderValidationReport,
+  validateQuizFile,
+  type FileValidationResult
+} from "./quiz/schema/validationReport.js";
+import { assertQuizDimensions, type QuizDimensions } from "./shared/quizLimits.js";
+import type { QuizSource } from "./shared/quizAgentContract.js";
 import { CanvasClient } from "./canvas/canvasClient.js";
-import { mapToCanvasQuiz } from "./quiz/quizMapper.js";
+import { mapToCanvasQuiz, totalQuizPoints } from "./quiz/quizMapper.js";
+import { uploadQuiz } from "./quiz/quizUpload.js";
+import { expandQuizInputs, loadQuizFile } from "./quiz/quizLoader.js";
+import { formatTable, runWithConcurrency } from "./quiz/batch.js";
+import { defaultExportFileName, mapFromCanvasQuiz } from "./quiz/quizExport.js";
+import { listQuestionGroups } from "./quiz/quizSync.js";
+import { quizImageUrls, readQuizImages, uploadQuizImages, type LocalQuizImage } from "./quiz/quizImages.js";
+import { renderQuizPreviewHtml, renderQuizPreviewText } from "./quiz/quizPreview.js";
+import { buildQtiPackage } from "./quiz/qti/qtiExport.js";
+import { parseQtiPackage } from "./quiz/qti/qtiImport.js";
+import {
+  buildPrintVersion,
+  renderPrintAnswerKeyHtml,
+  renderPrintHandoutHtml
+} from "./quiz/print/printExport.js";
+import { renderPrintPdf } from "./quiz/print/printPdf.js";
+import type { NexgenQuiz, NexgenQuizV1 } from "./quiz/types.js";
 import { generateQuizFromAgent } from "./agent/quiz/quizAgentClient.js";
+import { reviewQuiz } from "./agent/quiz/quizReview.js";
+import { buildQuizSources, questionCitations } from "./agent/quiz/quizSources.js";
 import { buildSessionHeaderTitles, resolveModuleByName } from "./session/sessionHeaders.js";
 import { buildTeacherNotesForSession } from "./session/teacherNotes.js";
-import { loadConfig } from "./config.js";
+import { collectSessionPages } from "./session/sessionPages.js";
+import { placeQuizInModule, resolveQuizPlacement } from "./session/quizPlacement.js";
+import { getCourseQuizDefaults, loadConfig } from "./config.js";
+import { formatLintFindings, lintQuiz, type LintConfig } from "./quiz/lint/quizLint.js";
 
 const program = new Command();
 
+function parseYearLevelOption(value: string, flag: string): NexgenQuizV1["yearLevel"]["min"] {
+  const n = Number(value);
+  if (n !== 7 && n !== 8 && n !== 9 && n !== 10) {
+    throw new Error(`Invalid ${flag}. Provide a year level from 7 to 10.`);
+  }
+  return n;
+}
+
+function parseIntegerOption(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n)) {
+    throw new Error(`Invalid ${flag}. Provide a whole number.`);
+  }
+  return n;
+}
+
+async function pathExists(file: string): Promise<boolean> {
+  return fs.stat(file).then(() => true, () => false);
+}
+
+/** `name.quiz.json`, or `name-2.quiz.json`, `name-3.quiz.json`, ... when it is taken. */
+async function unusedFilePath(file: string): Promise<string> {
+  const [, stem, ext] = file.match(/^(.*?)((?:\.quiz)?\.json)$/) ?? [file, file, ""];
+  let candidate = file;
+  for (let n = 2; await pathExists(candidate); n += 1) candidate = `${stem}-${n}${ext}`;
+  return candidate;
+}
+
+/** For commands that only handle multiple choice: refuses other schema versions by name. */
+function requireQuizV1(quiz: NexgenQuiz, command: string): NexgenQuizV1 {
+  if (quiz.schemaVersion !== "nexgen-quiz.v1") {
+    throw new Error(`${quiz.schemaVersion} is not supported by ${command}; it handles nexgen-quiz.v1 quizzes only.`);
+  }
+  return quiz;
+}
+
+/**
+ * Prints lint warnings and throws if any rule at "error" severity fired, so the quiz is not uploaded.
+ */
+function reportLintFindings(quiz: NexgenQuiz, lint: LintConfig, file?: string): void {
+  const findings = lintQuiz(quiz, lint);
+  const warnings = findings.filter((finding) => finding.severity === "warning");
+  const errors = findings.filter((finding) => finding.severity === "error");
+  const where = file ? ` (${file})` : "";
+  if (warnings.length > 0) {
+    console.warn(`Lint warnings${where}:\n${formatLintFindings(warnings)}`);
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Lint found ${errors.length} error(s); fix them or change quiz.lint.rules in config:\n${formatLintFindings(errors)}`
+    );
+  }
+}
+
 program
   .name("nexgen-canvas")
   .description("Run Nexgen Canvas automation workflows.")
   .version("0.1.0");
 
 program.command("create")
-  .description("Create a quiz in Canvas from a JSON file or from an agent prompt.")
+  .description("Create a quiz in Canvas from a JSON file, an agent prompt or a session module's pages.")
   .option("--course-id <id>", "Canvas course id to upload to", String(env.canvasTestCourseId))
-  .option("--from-file <path>", "Load Nexgen quiz JSON from file")
+  .option("--from-file <path>", "Load Nexgen quiz JSON, Markdown (.md) or a QTI 1.2 .zip from file")
   .option("--prompt <text>", "Generate quiz from agent using a prompt")
+  .option("--from-module <name>", "Generate quiz from agent using a session module's pages as source material")
+  .option("--question-count <n>", "Number of questions (1-50). Default: quiz.defaults.questionCount")
+  .option("--choices <n>", "Choices per multiple choice question (2-6). Default: quiz.defaults.choicesPerQuestion")
+  .option("--force-new", "Always create a new quiz instead of updating a matching one", false)
+  .option("--module-name <name>", "Session module to link the quiz into, under its QUIZ subheader")
+  .option("--no-review", "Skip the interactive review of agent-generated questions")
+  .option("--save <path>", "Where to save agent-generated quiz JSON. Default: <quiz-title>.quiz.json, numbered if taken")
+  .option("--force", "Overwrite the --save file if it already exists", false)
   .option("--dry-run", "Validate and show a summary without uploading", false)
   .action(async (opts) => {
     const courseId = Number(opts.courseId);
+    const config = await loadConfig();
+    const questionCountFlag = parseIntegerOption(opts.questionCount, "--question-count");
+    const choicesFlag = parseIntegerOption(opts.choices, "--choices");
 
-    if (!opts.fromFile && !opts.prompt) {
-      throw new Error("Provide either --from-file or --prompt.");
+    if (!opts.fromFile && !opts.prompt && !opts.fromModule) {
+      throw new Error("Provide one of --from-file, --prompt or --from-module.");
+    }
+    if (opts.fromFile && (opts.prompt || opts.fromModule)) {
+      throw new Error("--from-file cannot be combined with --prompt or --from-module.");
+    }
+
+    // Files are checked against the flags only when given; agent output always gets explicit counts.
+    const hasDimensionFlags = questionCountFlag !== undefined || choicesFlag !== undefined;
+    const fromAgent = Boolean(opts.prompt || opts.fromModule);
+    const expected: QuizDimensions | undefined = fromAgent || hasDimensionFlags
+      ? {
+          questionCount: questionCountFlag ?? config.quiz.defaults.questionCount,
+          choicesPerQuestion: choicesFlag ?? config.quiz.defaults.choicesPerQuestion
+        }
+      : undefined;
+    if (expected) {
+      assertQuizDimensions(expected, "create");
     }
-    if (opts.fromFile && opts.prompt) {
-      throw new Error("Provide only one of --from-file or --prompt.");
+    // Checked before asking the agent, so a generated (and reviewed) quiz is never thrown away.
+    if (fromAgent && opts.save && !opts.force && (await pathExists(String(opts.save)))) {
+      throw new Error(`${String(opts.save)} already exists. Pass --force to overwrite it, or choose another --save path.`);
     }
 
     let raw: unknown;
+    let prompt: string | undefined;
+    let sources: QuizSource[] | undefined;
 
     if (opts.fromFile) {
-      const txt = await fs.readFile(String(opts.fromFile), "utf8");
-      raw = JSON.parse(txt);
+      const loaded = await loadQuizFile(String(opts.fromFile));
+      for (const warning of loaded.warnings) console.warn(`Warning: ${warning}`);
+      raw = loaded.raw;
     } else {
-      raw = await generateQuizFromAgent(String(opts.prompt));
+      prompt = opts.prompt ? String(opts.prompt) : undefined;
+      if (opts.fromModule) {
+        const { module, modulePages } = await collectSessionPages(new CanvasClient(), courseId, String(opts.fromModule));
+        const built = buildQuizSources(modulePages);
+        if (built.sources.length === 0) {
+          throw new Error(`Module "${module.name}" has no pages with text to use as source material.`);
+        }
+        console.log(`Source pages: ${built.sources.length} from "${module.name}"`);
+        if (built.truncated.length > 0) {
+          console.warn(`Warning: source text was shortened for: ${built.truncated.join(", ")}`);
+        }
+        sources = built.sources;
+        prompt ??= `A quiz on the session "${module.name}"`;
+      }
+      const generated = await generateQuizFromAgent(prompt!, expected!, sources);
+      if (generated.repairs > 0) {
+        console.log(`Agent output needed ${generated.repairs} repair round(s) before it validated.`);
+      }
+      raw = generated.raw;
     }
 
-    const quiz = validateNexgenQuiz(raw);
-    const mapped = mapToCanvasQuiz(quiz);
+    let quiz = validateNexgenQuiz(raw);
+    let reviewed = false;
+    if (expected) {
+      assertQuizMatchesDimensions(quiz, expected);
+    }
+    if (fromAgent) {
+      // Review, saving and source citations work on the nexgen-quiz.v1 the agent is asked for.
+      quiz = requireQuizV1(quiz, "the create review step");
+      if (opts.review && process.stdin.isTTY) {
+        const review = await reviewQuiz(quiz, { prompt: prompt!, sources });
+        if (!review) {
+          console.log("Review ended: nothing saved or uploaded.");
+          return;
+        }
+        quiz = review.quiz;
+        reviewed = true;
+        console.log(
+          `Reviewed: ${quiz.questions.length} kept (${review.edited} edited, ${review.regenerated} regenerated), ${review.rejected} rejected`
+        );
+      } else if (opts.review) {
+        console.log("Not an interactive terminal: skipping review.");
+      }
+      // Saved before anything else can fail, so the reviewed quiz is never lost.
+      const savePath = opts.save ? String(opts.save) : await unusedFilePath(defaultExportFileName(quiz.title));
+      await fs.writeFile(savePath, `${JSON.stringify(quiz, null, 2)}\n`, { encoding: "utf8", flag: opts.force ? "w" : "wx" });
+      console.log(`Saved ${path.resolve(savePath)}`);
+    }
+    reportLintFindings(quiz, config.quiz.lint);
+    if (sources && quiz.schemaVersion === "nexgen-quiz.v1") {
+      for (const citation of questionCitations(quiz, sources)) {
+        if (citation.titles.length > 0) console.log(`${citation.questionId} from: ${citation.titles.join(", ")}`);
+        else console.warn(`Warning: ${citation.questionId} does not cite a source page.`);
+      }
+    }
+    // Image paths are relative to the quiz file; agent output has none.
+    const images = await readQuizImages(quiz, opts.fromFile ? path.dirname(path.resolve(String(opts.fromFile))) : process.cwd());
+    const mapOptions = {
+      defaults: getCourseQuizDefaults(config, courseId),
+      pointsByDifficulty: config.quiz.defaults.pointsByDifficulty
+    };
+    let mapped = mapToCanvasQuiz(quiz, {
+      ...mapOptions,
+      imageUrls: new Map(images.map((image) => [image.src, image.src]))
+    });
 
     console.log(`Quiz: ${quiz.title}`);
-    console.log(`Questions: ${quiz.questions.length} (expected 5)`);
+    console.log(`Questions: ${quiz.questions.length}${expected && !reviewed ? ` (expected ${expected.questionCount})` : ""}`);
+    console.log(`Points: ${totalQuizPoints(mapped)}`);
+    if (images.length > 0) {
+      console.log(`Images: ${images.length}`);
+    }
     console.log(`Target course: ${courseId}`);
+    if (opts.moduleName) {
+      console.log(`Target module: ${opts.moduleName} (under QUIZ)`);
+    }
     if (opts.dryRun) {
-      console.log("Dry run: no upload performed.");
+      console.log("Dry run: no upload performed. Run `preview` to see every question.");
       return;
     }
 
     const client = new CanvasClient();
-    const created = await client.createQuiz(courseId, mapped.canvasQuiz);
+    const placement = opts.moduleName
+      ? await resolveQuizPlacement(client, courseId, String(opts.moduleName))
+      : undefined;
+    if (images.length > 0) {
+      const upload = await uploadQuizImages(client, courseId, images, config.quiz.imageFolder);
+      console.log(`Images: ${upload.uploaded} uploaded, ${upload.reused} already in Canvas`);
+      mapped = mapToCanvasQuiz(quiz, { ...mapOptions, imageUrls: quizImageUrls(images, upload.urlsByHash) });
+    }
+    const result = await uploadQuiz(client, courseId, quiz, mapped, { forceNew: Boolean(opts.forceNew) });
+
+    const urlGuess = result.htmlUrl ?? `${env.canvasBaseUrl}/courses/${courseId}/quizzes/${result.quizId}`;
+    if (result.action === "created") {
+      console.log(`Created quiz id: ${result.quizId}`);
+    } else {
+      console.log(`Updated existing quiz id: ${result.quizId}`);
+      console.log(
+        `Questions: ${result.added} added, ${result.updated} updated, ${result.removed} removed, ${result.unchanged} unchanged`
+      );
+    }
+    if (placement) {
+      const placed = await placeQuizInModule(client, courseId, placement, { id: result.quizId, title: quiz.title });
+      if (placed.action === "created") console.log(`Added quiz to module "${placement.module.name}" under QUIZ.`);
+      if (placed.action === "moved") console.log(`Moved quiz module item under QUIZ in "${placement.module.name}".`);
+      if (placed.action === "unchanged") console.log("Module item placement already correct.");
+    }
+    console.log(`Quiz URL: ${urlGuess}`);
+  });
+
+program.command("preview")
+  .description("Show a quiz file as it will be uploaded, with answers marked, or write it as an HTML page.")
+  .requiredOption("--from-file <path>", "Nexgen quiz JSON, Markdown (.md) or a QTI 1.2 .zip")
+  .option("--course-id <id>", "Course whose quiz setting defaults apply", String(env.canvasTestCourseId))
+  .option("--html <path>", "Write a standalone HTML preview to this path instead of printing")
+  .option("--no-payload", "Leave the mapped Canvas payload out of the terminal preview")
+  .action(async (opts) => {
+    const fromFile = path.resolve(String(opts.fromFile));
+    const courseId = Number(opts.courseId);
+    const config = await loadConfig();
+    const loaded = await loadQuizFile(fromFile);
+    for (const warning of loaded.warnings) console.warn(`Warning: ${warning}`);
+    const quiz = validateNexgenQuiz(loaded.raw);
+    // Proofreading should not stop at lint errors; show them all as findings.
+    const findings = lintQuiz(quiz, config.quiz.lint);
+    if (findings.length > 0) console.warn(`Lint findings:\n${formatLintFindings(findings)}`);
+
+    const images = await readQuizImages(quiz, path.dirname(fromFile));
+    const htmlPath = opts.html ? path.resolve(String(opts.html)) : undefined;
+    // The HTML page links the local files, relative to where it is written.
+    const imageUrls = new Map(images.map((image) => [
+      image.src,
+      htmlPath ? path.relative(path.dirname(htmlPath), image.filePath).split(path.sep).join("/") : image.src
+    ]));
+    const mapped = mapToCanvasQuiz(quiz, {
+      defaults: getCourseQuizDefaults(config, courseId),
+      pointsByDifficulty: config.quiz.defaults.pointsByDifficulty,
+      imageUrls
+    });
+
+    if (!htmlPath) {
+      process.stdout.write(renderQuizPreviewText(quiz, mapped, { payload: Boolean(opts.payload) }));
+      return;
+    }
+    await fs.writeFile(htmlPath, renderQuizPreviewHtml(quiz, mapped, { canvasBaseUrl: env.canvasBaseUrl }), "utf8");
+    console.log(`Quiz: ${quiz.title}`);
+    console.log(`Questions: ${quiz.questions.length}`);
+    console.log(`Wrote ${htmlPath}`);
+  });
 
-    for (const q of mapped.canvasQuestions) {
-      await client.addQuizQuestion(courseId, created.id, q);
+program.command("create-batch")
+  .description("Validate every quiz in a folder or glob, then upload them with a concurrency limit.")
+  .argument("<inputs...>", "Quiz files, folders or glob patterns (e.g. \"quizzes/**/*.quiz.json\")")
+  .option("--course-id <id>", "Canvas course id to upload to", String(env.canvasTestCourseId))
+  .option("--concurrency <n>", "Maximum quizzes uploading at once", "3")
+  .option("--results <path>", "Where to write the machine-readable results file", "batch-results.json")
+  .option("--force-new", "Always create new quizzes instead of updating matching ones", false)
+  .option("--dry-run", "Validate all files and show what would be uploaded", false)
+  .action(async (inputs: string[], opts) => {
+    const courseId = Number(opts.courseId);
+    if (!Number.isFinite(courseId)) {
+      throw new Error("Invalid --course-id. Provide a numeric Canvas course id.");
+    }
+    const concurrency = parseIntegerOption(opts.concurrency, "--concurrency") ?? 3;
+    if (concurrency < 1) {
+      throw new Error("Invalid --concurrency. Provide a number of 1 or more.");
     }
 
-    if (mapped.canvasQuiz.published === false) {
+    const config = await loadConfig();
+    const files = await expandQuizInputs(inputs);
+    console.log(`Files: ${files.length}`);
+
+    // Validate everything before touching Canvas so one bad file cannot leave a half-done batch.
+    const valid: Array<{ file: string; quiz: NexgenQuiz; images: LocalQuizImage[] }> = [];
+    const problems: string[] = [];
+    for (const file of files) {
       try {
-        await client.updateQuiz(courseId, created.id, { published: true });
-        await client.updateQuiz(courseId, created.id, { published: false });
+        const loaded = await loadQuizFile(file);
+        for (const warning of loaded.warnings) console.warn(`Warning (${file}): ${warning}`);
+        const quiz = validateNexgenQuiz(loaded.raw);
+        reportLintFindings(quiz, config.quiz.lint, file);
+        valid.push({ file, quiz, images: await readQuizImages(quiz, path.dirname(path.resolve(file))) });
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
-        console.warn(`Warning: unable to refresh quiz question count. You can publish/unpublish manually. ${message}`);
+        problems.push(`${file}:\n  ${message.split("\n").join("\n  ")}`);
       }
     }
 
-    const urlGuess = created.html_url ?? `${env.canvasBaseUrl}/courses/${courseId}/quizzes/${created.id}`;
-    console.log(`Created quiz id: ${created.id}`);
-    console.log(`Quiz URL: ${urlGuess}`);
+    const seen = new Map<string, string>();
+    for (const { file, quiz } of valid) {
+      for (const key of [quiz.id ? `id "${quiz.id}"` : undefined, `title "${quiz.title.trim().toLowerCase()}"`]) {
+        if (!key) continue;
+        const other = seen.get(key);
+        if (other) problems.push(`${file}:\n  Same quiz ${key} as ${other}.`);
+        else seen.set(key, file);
+      }
+    }
+
+    if (problems.length > 0) {
+      console.error(`Validation failed for ${problems.length} issue(s); nothing was uploaded.`);
+      for (const problem of problems) console.error(`- ${problem}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(`All ${valid.length} quizzes are valid.`);
+    if (opts.dryRun) {
+      console.log(formatTable(["File", "Title", "Questions"], valid.map(({ file, quiz }) => [
+        file,
+        quiz.title,
+        String(quiz.questions.length)
+      ])));
+      console.log("Dry run: no upload performed. Run `preview` to see every question.");
+      return;
+    }
+
+    const client = new CanvasClient();
+    const mapOptions = {
+      defaults: getCourseQuizDefaults(config, courseId),
+      pointsByDifficulty: config.quiz.defaults.pointsByDifficulty
+    };
+    const startedAtUtc = new Date().toISOString();
+    // Upload images once for the whole batch, before quizzes run concurrently and could race on a shared image.
+    const allImages = valid.flatMap((entry) => entry.images);
+    const imageUpload = allImages.length > 0
+      ? await uploadQuizImages(client, courseId, allImages, config.quiz.imageFolder)
+      : undefined;
+    if (imageUpload) {
+      console.log(`Images: ${imageUpload.uploaded} uploaded, ${imageUpload.reused} already in Canvas`);
+    }
+    const results = await runWithConcurrency(valid, concurrency, async ({ file, quiz, images }) => {
+      try {
+        const imageUrls = quizImageUrls(images, imageUpload?.urlsByHash ?? new Map());
+        const result = await uploadQuiz(client, courseId, quiz, mapToCanvasQuiz(quiz, { ...mapOptions, imageUrls }), {
+          forceNew: Boolean(opts.forceNew)
+        });
+        const { htmlUrl, ...counts } = result;
+        const url = htmlUrl ?? `${env.canvasBaseUrl}/courses/${courseId}/quizzes/${result.quizId}`;
+        console.log(`${result.action === "created" ? "Created" : "Updated"}: ${quiz.title} (${result.quizId})`);
+        return { file, title: quiz.title, status: "ok" as const, ...counts, url };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`Failed: ${quiz.title}\n  ${message.split("\n").join("\n  ")}`);
+        return { file, title: quiz.title, status: "failed" as const, error: message };
+      }
+    });
+
+    const resultsPath = String(opts.results);
+    await fs.writeFile(
+      resultsPath,
+      `${JSON.stringify({ courseId, startedAtUtc, finishedAtUtc: new Date().toISOString(), results }, null, 2)}\n`,
+      "utf8"
+    );
+
+    console.log("");
+    console.log(formatTable(["Title", "Status", "Canvas id", "URL"], results.map((r) =>
+      r.status === "ok"
+        ? [r.title, r.action, String(r.quizId), r.url]
+        : [r.title, "FAILED", "-", "-"]
+    )));
+    const failed = results.filter((r) => r.status === "failed").length;
+    console.log(`\nUploaded ${results.length - failed}/${results.length}. Results written to ${resultsPath}`);
+    if (failed > 0) {
+      process.exitCode = 1;
+    }
+  });
+
+program.command("validate")
+  .description("Check quiz files against the schema and content rules without touching Canvas.")
+  .argument("<inputs...>", "Quiz files, folders or glob patterns")
+  .option("--format <format>", "Report format: text, json or sarif", "text")
+  .option("--out <path>", "Write the report to a file instead of stdout")
+  .action(async (inputs: string[], opts) => {
+    const format = String(opts.format);
+    if (format !== "text" && format !== "json" && format !== "sarif") {
+      throw new Error("Invalid --format. Use text, json or sarif.");
+    }
+
+    const config = await loadConfig();
+    const files = await expandQuizInputs(inputs);
+    const results: FileValidationResult[] = [];
+    for (const file of files) {
+      results.push(await validateQuizFile(file, config.quiz.lint));
+    }
+
+    const report = renderValidationReport(results, format);
+    if (opts.out) {
+      await fs.writeFile(String(opts.out), report, "utf8");
+      console.log(`Wrote ${opts.out}`);
+    } else {
+      process.stdout.write(report);
+    }
+    if (results.some((result) => !result.valid)) process.exitCode = 1;
+  });
+
+program.command("export-quiz")
+  .description("Export a Canvas Classic Quiz back into Nexgen quiz JSON (nexgen-quiz.v1).")
+  .requiredOption("--quiz-id <id>", "Canvas quiz id to export")
+  .option("--course-id <id>", "Canvas course id to read from", String(env.canvasTestCourseId))
+  .option("--out <path>", "Output JSON path. Default: <quiz-title>.quiz.json")
+  .option("--id <slug>", "Stable quiz id to store in the JSON (default: read from the Canvas quiz)")
+  .option("--year-min <n>", "yearLevel.min for the exported quiz", "7")
+  .option("--year-max <n>", "yearLevel.max for the exported quiz", "10")
+  .action(async (opts) => {
+    const courseId = Number(opts.courseId);
+    const quizId = Number(opts.quizId);
+    if (!Number.isFinite(courseId) || !Number.isFinite(quizId)) {
+      throw new Error("Invalid --course-id or --quiz-id. Provide numeric Canvas ids.");
+    }
+
+    const client = new CanvasClient();
+    const canvasQuiz = await client.getQuiz(courseId, quizId);
+    const records = await client.listQuizQuestions(courseId, quizId);
+    const groups = await listQuestionGroups(client, courseId, quizId, records);
+
+    const { quiz, warnings } = mapFromCanvasQuiz(canvasQuiz, records, {
+      yearLevel: {
+        min: parseYearLevelOption(String(opts.yearMin), "--year-min"),
+        max: parseYearLevelOption(String(opts.yearMax), "--year-max")
+      },
+      id: opts.id ? String(opts.id) : undefined,
+      groups
+    });
+    const validated = validateNexgenQuizV1(quiz);
+
+    const outPath = opts.out ? String(opts.out) : defaultExportFileName(validated.title);
+    await fs.writeFile(outPath, `${JSON.stringify(validated, null, 2)}\n`, "utf8");
+
+    console.log(`Quiz: ${validated.title} (${quizId})`);
+    console.log(`Exported questions: ${validated.questions.length} of ${records.length}`);
+    if (warnings.length > 0) {
+      console.warn(`Warnings (${warnings.length}):`);
+      for (const warning of warnings) console.warn(`- ${warning}`);
+    }
+    console.log(`Wrote ${outPath}`);
+  });
+
+program.command("export-qti")
+  .description("Package a Nexgen quiz JSON file as an IMS QTI 1.2 zip (Canvas-flavoured).")
+  .requiredOption("--from-file <path>", "Nexgen quiz JSON (nexgen-quiz.v1) to export")
+  .option("--out <path>", "Output zip path. Default: input path with .qti.zip")
+  .action(async (opts) => {
+    const fromFile = String(opts.fromFile);
+    const loaded = await loadQuizFile(fromFile);
+    const quiz = requireQuizV1(validateNexgenQuiz(loaded.raw), "export-qti");
+
+    const config = await loadConfig();
+
+    const outPath = opts.out ? String(opts.out) : fromFile.replace(/(\.quiz)?\.json$/i, "") + ".qti.zip";
+    await fs.writeFile(outPath, buildQtiPackage(quiz, config.quiz.defaults.pointsByDifficulty));
+
+    console.log(`Quiz: ${quiz.title}`);
+    console.log(`Questions: ${quiz.questions.length}`);
+    const withImages = quiz.questions.filter((question) => question.images?.length).map((question) => question.id);
+    if (withImages.length > 0) {
+      console.warn(`Warning: question images are not included in QTI packages (${withImages.join(", ")}).`);
+    }
+    console.log(`Wrote ${outPath}`);
+  });
+
+program.command("export-print")
+  .description("Write a printable student handout and answer key (HTML, optionally PDF) from a nexgen-quiz.v1 file.")
+  .requiredOption("--from-file <path>", "Nexgen quiz JSON, Markdown or QTI .zip (nexgen-quiz.v1)")
+  .option("--out-dir <dir>", "Folder for the output files. Default: the quiz file's folder")
+  .option("--versions <labels>", "Comma-separated version labels, e.g. A,B; each gets its own choice order")
+  .option("--shuffle", "Shuffle choice order (implied by --versions)", false)
+  .option("--seed <text>", "Shuffle seed. Default: the quiz id, else its title")
+  .option("--pdf", "Also write PDF files", false)
+  .action(async (opts) => {
+    const fromFile = path.resolve(String(opts.fromFile));
+    const loaded = await loadQuizFile(fromFile);
+    for (const warning of loaded.warnings) console.warn(`Warning: ${warning}`);
+    const quiz = requireQuizV1(validateNexgenQuiz(loaded.raw), "export-print");
+
+    const labels: Array<string | undefined> = opts.versions
+      ? String(opts.versions).split(",").map((label) => label.trim()).filter(Boolean)
+      : [undefined];
+    if (labels.length === 0 || new Set(labels).size !== labels.length) {
+      throw new Error("Invalid --versions. Provide distinct comma-separated labels, e.g. A,B.");
+    }
+    if (labels.some((label) => label !== undefined && !/^[A-Za-z0-9-]{1,20}$/.test(label))) {
+      throw new Error("Invalid --versions. Labels may use letters, digits and dashes (up to 20).");
+    }
+
+    const config = await loadConfig();
+    const images = await readQuizImages(quiz, path.dirname(fromFile));
+    const outDir = path.resolve(opts.outDir ? String(opts.outDir) : path.dirname(fromFile));
+    await fs.mkdir(outDir, { recursive: true });
+    const imageUrls = new Map(images.map((image) => [
+      image.src,
+      path.relative(outDir, image.filePath).split(path.sep).join("/")
+    ]));
+    const base = path.basename(fromFile).replace(/(\.quiz|\.qti)?\.(json|md|zip)$/i, "");
+
+    console.log(`Quiz: ${quiz.title}`);
+    const written: string[] = [];
+    for (const label of labels) {
+      const version = buildPrintVersion(quiz, {
+        shuffle: Boolean(opts.shuffle) || opts.versions !== undefined,
+        seed: opts.seed ? String(opts.seed) : undefined,
+        label,
+        pointsByDifficulty: config.quiz.defaults.pointsByDifficulty
+      });
+      const stem = path.join(outDir, label ? `${base}.${label}` : base);
+      await fs.writeFile(`${stem}.handout.html`, renderPrintHandoutHtml(version, { imageUrls }), "utf8");
+      await fs.writeFile(`${stem}.answer-key.html`, renderPrintAnswerKeyHtml(version, { imageUrls }), "utf8");
+      written.push(`${stem}.handout.html`, `${stem}.answer-key.html`);
+      if (opts.pdf) {
+        const pdfImages = new Map(images.map((image) => [image.src, image]));
+        await fs.writeFile(`${stem}.handout.pdf`, await renderPrintPdf(version, "handout", pdfImages));
+        await fs.writeFile(`${stem}.answer-key.pdf`, await renderPrintPdf(version, "answer-key", pdfImages));
+        written.push(`${stem}.handout.pdf`, `${stem}.answer-key.pdf`);
+      }
+    }
+    for (const file of written) console.log(`Wrote ${file}`);
+  });
+
+program.command("import-qti")
+  .description("Convert an IMS QTI 1.2 zip into validated Nexgen quiz JSON (nexgen-quiz.v1).")
+  .requiredOption("--from-file <path>", "QTI zip to import")
+  .option("--out <path>", "Output JSON path. Default: <quiz-title>.quiz.json")
+  .option("--year-min <n>", "yearLevel.min when the package does not carry one", "7")
+  .option("--year-max <n>", "yearLevel.max when the package does not carry one", "10")
+  .action(async (opts) => {
+    const bytes = await fs.readFile(String(opts.fromFile));
+    const { quiz, warnings } = parseQtiPackage(new Uint8Array(bytes), {
+      yearLevel: {
+        min: parseYearLevelOption(String(opts.yearMin), "--year-min"),
+        max: parseYearLevelOption(String(opts.yearMax), "--year-max")
+      }
+    });
+    const validated = validateNexgenQuizV1(quiz);
+
+    const outPath = opts.out ? String(opts.out) : defaultExportFileName(validated.title);
+    await fs.writeFile(outPath, `${JSON.stringify(validated, null, 2)}\n`, "utf8");
+
+    console.log(`Quiz: ${validated.title}`);
+    console.log(`Imported questions: ${validated.questions.length}`);
+    if (warnings.length > 0) {
+      console.warn(`Warnings (${warnings.length}):`);
+      for (const warning of warnings) console.warn(`- ${warning}`);
+    }
+    console.log(`Wrote ${outPath}`);
   });
 
 program.command("session-headers")
@@ -1,5 +1,9 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import { assertQuizDimensions } from "./shared/quizLimits.js";
+import { resolveLintRules, type LintConfig } from "./quiz/lint/quizLint.js";
+import { validateQuizOptions } from "./quiz/schema/validate.js";
+import type { NexgenQuizOptions, QuizPointsByDifficulty } from "./quiz/types.js";
 
 export type PipelineConfig = {
   quiz: {
@@ -8,7 +12,13 @@ export type PipelineConfig = {
       questionCount: number;
       choicesPerQuestion: number;
       allowedAttempts: number;
+      pointsByDifficulty: QuizPointsByDifficulty;
     };
+    lint: LintConfig;
+    /** Course folder that question images are uploaded into. */
+    imageFolder: string;
+    /** Quiz options per Canvas course id, used where the quiz JSON leaves them unset. */
+    courseDefaults: Record<string, NexgenQuizOptions>;
   };
   sessions: {
     sessionNumberPad: number;
@@ -22,8 +32,12 @@ const DEFAULT_CONFIG: PipelineConfig = {
     defaults: {
       questionCount: 5,
       choicesPerQuestion: 4,
-      allowedAttempts: 1
-    }
+      allowedAttempts: 1,
+      pointsByDifficulty: { easy: 1, medium: 1, hard: 1 }
+    },
+    lint: { rules: {} },
+    imageFolder: "nexgen-quiz-images",
+    courseDefaults: {}
   },
   sessions: {
     sessionNumberPad: 2,
@@ -37,7 +51,20 @@ const DEFAULT_CONFIG: PipelineConfig = {
   }
 };
 
-function mergeConfig(input: Partial<PipelineConfig>): PipelineConfig {
+type PipelineConfigInput = {
+  quiz?: {
+    schemaVersion?: string;
+    defaults?: Partial<Omit<PipelineConfig["quiz"]["defaults"], "pointsByDifficulty">> & {
+      pointsByDifficulty?: Partial<QuizPointsByDifficulty>;
+    };
+    lint?: Partial<LintConfig>;
+    imageFolder?: string;
+    courseDefaults?: Record<string, unknown>;
+  };
+  sessions?: Partial<PipelineConfig["sessions"]>;
+};
+
+function mergeConfig(input: PipelineConfigInput): PipelineConfig {
   const quizDefaults = input.quiz?.defaults ?? {};
   return {
     quiz: {
@@ -45,8 +72,14 @@ function mergeConfig(input: Partial<PipelineConfig>): PipelineConfig {
       defaults: {
         questionCount: quizDefaults.questionCount ?? DEFAULT_CONFIG.quiz.defaults.questionCount,
         choicesPerQuestion: quizDefaults.choicesPerQuestion ?? DEFAULT_CONFIG.quiz.defaults.choicesPerQuestion,
-        allowedAttempts: quizDefaults.allowedAttempts ?? DEFAULT_CONFIG.quiz.defaults.allowedAttempts
-      }
+        allowedAttempts: quizDefaults.allowedAttempts ?? DEFAULT_CONFIG.quiz.defaults.allowedAttempts,
+        pointsByDifficulty: { ...DEFAULT_CONFIG.quiz.defaults.pointsByDifficulty, ...quizDefaults.pointsByDifficulty }
+      },
+      lint: {
+        rules: input.quiz?.lint?.rules ?? DEFAULT_CONFIG.quiz.lint.rules
+      },
+      imageFolder: input.quiz?.imageFolder ?? DEFAULT_CONFIG.quiz.imageFolder,
+      courseDefaults: (input.quiz?.courseDefaults ?? DEFAULT_CONFIG.quiz.courseDefaults) as Record<string, NexgenQuizOptions>
     },
     sessions: {
       sessionNumberPad: input.sessions?.sessionNumberPad ?? DEFAULT_CONFIG.sessions.sessionNumberPad,
@@ -57,12 +90,43 @@ function mergeConfig(input: Partial<PipelineConfig>): PipelineConfig {
   };
 }
 
+function assertPointsByDifficulty(points: Record<string, unknown>, label: string): void {
+  for (const [difficulty, value] of Object.entries(points)) {
+    if (!(difficulty in DEFAULT_CONFIG.quiz.defaults.pointsByDifficulty)) {
+      throw new Error(`${label}: unknown difficulty "${difficulty}". Use easy, medium or hard.`);
+    }
+    if (typeof value !== "number" || !(value > 0) || value > 100) {
+      throw new Error(`${label}.${difficulty} must be a number above 0 and at most 100.`);
+    }
+  }
+}
+
+export function getCourseQuizDefaults(config: PipelineConfig, courseId: number): NexgenQuizOptions {
+  return {
+    allowedAttempts: config.quiz.defaults.allowedAttempts,
+    ...config.quiz.courseDefaults[String(courseId)]
+  };
+}
+
 export async function loadConfig(): Promise<PipelineConfig> {
   const configPath = path.resolve(process.cwd(), "config", "nexgen-canvas-pipeline.config.json");
   try {
     const raw = await fs.readFile(configPath, "utf8");
-    const parsed = JSON.parse(raw) as Partial<PipelineConfig>;
-    return mergeConfig(parsed ?? {});
+    const parsed = JSON.parse(raw) as PipelineConfigInput;
+    const config = mergeConfig(parsed ?? {});
+    assertQuizDimensions(config.quiz.defaults, `Invalid quiz.defaults in ${configPath}`);
+    assertPointsByDifficulty(config.quiz.defaults.pointsByDifficulty, `${configPath}: quiz.defaults.pointsByDifficulty`);
+    if (typeof config.quiz.imageFolder !== "string" || config.quiz.imageFolder.trim() === "") {
+      throw new Error(`${configPath}: quiz.imageFolder must be a non-empty folder path.`);
+    }
+    resolveLintRules(config.quiz.lint, undefined, `${configPath}: quiz.lint.rules`);
+    for (const [courseId, options] of Object.entries(config.quiz.courseDefaults)) {
+      if (!/^\d+$/.test(courseId)) {
+        throw new Error(`${configPath}: quiz.courseDefaults keys must be Canvas course ids (got "${courseId}").`);
+      }
+      validateQuizOptions(options, `Invalid quiz.courseDefaults.${courseId} in ${configPath}`);
+    }
+    return config;
   } catch (err) {
     const code = err instanceof Error ? (err as NodeJS.ErrnoException).code : undefined;
     if (code === "ENOENT") {
@@ -15,10 +15,20 @@ function getOptional(name: string): string | undefined {
   return t.length ? t : undefined;
 }
 
+function getOptionalNumber(name: string): number | undefined {
+  const v = getOptional(name);
+  if (v === undefined) return undefined;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`Invalid env var: ${name} must be a non-negative number`);
+  return n;
+}
+
 export const env = {
   canvasBaseUrl: mustGet("CANVAS_BASE_URL"),
   canvasApiToken: mustGet("CANVAS_API_TOKEN"),
   canvasTestCourseId: Number(mustGet("CANVAS_TEST_COURSE_ID")),
   quizAgentUrl: getOptional("QUIZ_AGENT_URL"),
-  quizAgentApiKey: getOptional("QUIZ_AGENT_API_KEY")
+  quizAgentApiKey: getOptional("QUIZ_AGENT_API_KEY"),
+  canvasRequestTimeoutMs: getOptionalNumber("CANVAS_REQUEST_TIMEOUT_MS"),
+  canvasMaxRetries: getOptionalNumber("CANVAS_MAX_RETRIES")
 };
@@ -0,0 +1,34 @@
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, preserving input order
+ * in the returned results.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function lane(): Promise<void> {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await worker(items[index], index);
+    }
+  }
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => lane());
+  await Promise.all(lanes);
+  return results;
+}
+
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, col) =>
+    Math.max(header.length, ...rows.map((row) => (row[col] ?? "").length))
+  );
+  const line = (cells: string[]): string =>
+    cells.map((cell, col) => (cell ?? "").padEnd(widths[col])).join("  ").trimEnd();
+
+  return [line(headers), line(widths.map((w) => "-".repeat(w))), ...rows.map(line)].join("\n");
+}
@@ -0,0 +1,89 @@
+import type { NexgenQuiz } from "../types.js";
+import { BUILT_IN_LINT_RULES, type LintRule, type LintSeverity } from "./rules.js";
+
+/** A severity, or `[severity, options]` to tune a rule (ESLint style). */
+export type LintRuleSetting = LintSeverity | [LintSeverity, Record<string, number>];
+
+export type LintConfig = {
+  rules: Record<string, LintRuleSetting>;
+};
+
+export type LintFinding = {
+  rule: string;
+  severity: Exclude<LintSeverity, "off">;
+  /** JSON pointer into the quiz. */
+  path: string;
+  message: string;
+};
+
+type ResolvedLintRule = {
+  rule: LintRule;
+  severity: LintSeverity;
+  options: Record<string, number>;
+};
+
+const SEVERITIES: LintSeverity[] = ["off", "warning", "error"];
+
+/**
+ * Merges configured severities/options over each rule's defaults. Unknown rule ids, severities
+ * and option names are errors, so a typo in config cannot silently disable a rule.
+ */
+export function resolveLintRules(
+  config: LintConfig,
+  rules: LintRule[] = BUILT_IN_LINT_RULES,
+  label = "quiz.lint.rules"
+): ResolvedLintRule[] {
+  const byId = new Map(rules.map((rule) => [rule.id, rule]));
+  for (const id of Object.keys(config.rules)) {
+    if (!byId.has(id)) {
+      throw new Error(`${label}: unknown lint rule "${id}". Known rules: ${[...byId.keys()].join(", ")}.`);
+    }
+  }
+
+  return rules.map((rule) => {
+    const setting = config.rules[rule.id];
+    const [severity, overrides] = Array.isArray(setting)
+      ? setting
+      : [setting ?? rule.defaultSeverity, {}];
+    if (!SEVERITIES.includes(severity)) {
+      throw new Error(`${label}.${rule.id}: severity must be one of ${SEVERITIES.join(", ")} (got ${JSON.stringify(severity)}).`);
+    }
+    for (const [name, value] of Object.entries(overrides ?? {})) {
+      if (!(name in rule.defaultOptions)) {
+        const known = Object.keys(rule.defaultOptions);
+        throw new Error(
+          `${label}.${rule.id}: unknown option "${name}". ${known.length ? `Options: ${known.join(", ")}.` : "This rule has no options."}`
+        );
+      }
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new Error(`${label}.${rule.id}: option "${name}" must be a number.`);
+      }
+    }
+    return { rule, severity, options: { ...rule.defaultOptions, ...overrides } };
+  });
+}
+
+/**
+ * Runs content rules over a schema-valid quiz. Findings come back in rule order; the caller
+ * decides what to do with errors (`create` refuses to upload).
+ */
+export function lintQuiz(
+  quiz: NexgenQuiz,
+  config: LintConfig,
+  rules: LintRule[] = BUILT_IN_LINT_RULES
+): LintFinding[] {
+  const findings: LintFinding[] = [];
+  for (const { rule, severity, options } of resolveLintRules(config, rules)) {
+    if (severity === "off") continue;
+    rule.check({
+      quiz,
+      options,
+      report: (path, message) => findings.push({ rule: rule.id, severity, path, message })
+    });
+  }
+  return findings;
+}
+
+export function formatLintFindings(findings: LintFinding[]): string {
+  return findings.map((finding) => `- [${finding.severity}] ${finding.message} (${finding.rule})`).join("\n");
+}
@@ -0,0 +1,27 @@
+// Flesch-Kincaid grade level. US grades line up closely enough with Australian school years
+// for a warning threshold; it is not a substitute for a teacher reading the question.
+
+function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (w.length === 0) return 0;
+  if (w.length <= 3) return 1;
+  const trimmed = w.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+  const groups = trimmed.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+export type ReadingLevel = {
+  words: number;
+  sentences: number;
+  grade: number;
+};
+
+export function readingLevel(text: string): ReadingLevel {
+  const words = text.match(/[A-Za-z]+(?:['’-][A-Za-z]+)*/g) ?? [];
+  const sentences = Math.max(1, (text.match(/[.!?]+(?=\s|$)/g) ?? []).length);
+  if (words.length === 0) return { words: 0, sentences, grade: 0 };
+
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+  return { words: words.length, sentences, grade: Math.round(grade * 10) / 10 };
+}
@@ -0,0 +1,185 @@
+import type { NexgenQuiz } from "../types.js";
+import { readingLevel } from "./readingLevel.js";
+
+export type LintSeverity = "off" | "warning" | "error";
+
+export type LintContext<Options> = {
+  quiz: NexgenQuiz;
+  options: Options;
+  /** `path` is a JSON pointer into the quiz, as in validation issues. */
+  report(path: string, message: string): void;
+};
+
+export type LintRule<Options extends Record<string, number> = Record<string, number>> = {
+  id: string;
+  description: string;
+  defaultSeverity: LintSeverity;
+  defaultOptions: Options;
+  check(context: LintContext<Options>): void;
+};
+
+type SingleAnswerQuestion = { id: string; choices: string[]; correctIndex: number };
+
+/** Questions with a choice list (v2 `multiple_choice` and `multiple_answers`), with their index. */
+function questionsWithChoices(quiz: NexgenQuiz): Array<{ question: { id: string; choices: string[] }; qIdx: number }> {
+  return quiz.questions.flatMap((question, qIdx) => ("choices" in question ? [{ question, qIdx }] : []));
+}
+
+/** Questions with one correct choice: all of v1, `multiple_choice` in v2. */
+function singleAnswerQuestions(quiz: NexgenQuiz): Array<{ question: SingleAnswerQuestion; qIdx: number }> {
+  return quiz.questions.flatMap((question, qIdx) => (question.type === "multiple_choice" ? [{ question, qIdx }] : []));
+}
+
+function normalizeChoice(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/^(?:a|an|the)\s+/, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    // Plural and singular forms of the same answer ("Volt", "Volts") count as the same.
+    .replace(/\b([a-z]{3,}?)(?:es|s)\b/g, "$1");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, idx) => idx);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+const nearDuplicateChoices: LintRule<{ threshold: number }> = {
+  id: "near-duplicate-choices",
+  description: "Two choices in a question are the same apart from case, punctuation, articles or a typo.",
+  defaultSeverity: "error",
+  defaultOptions: { threshold: 0.85 },
+  check({ quiz, options, report }) {
+    questionsWithChoices(quiz).forEach(({ question, qIdx }) => {
+      const normalized = question.choices.map(normalizeChoice);
+      for (let i = 0; i < normalized.length; i += 1) {
+        for (let j = i + 1; j < normalized.length; j += 1) {
+          // Exact repeats are already validation errors.
+          if (question.choices[i].trim().toLowerCase() === question.choices[j].trim().toLowerCase()) continue;
+          // "10 ohms" and "100 ohms" are different answers, however similar they look.
+          if (normalized[i].replace(/\D/g, "") !== normalized[j].replace(/\D/g, "")) continue;
+          const score = similarity(normalized[i], normalized[j]);
+          if (score >= options.threshold) {
+            report(
+              `/questions/${qIdx}/choices/${j}`,
+              `${question.id}: choice ${j + 1} ("${question.choices[j]}") is nearly the same as choice ${i + 1} ("${question.choices[i]}").`
+            );
+          }
+        }
+      }
+    });
+  }
+};
+
+const ABOVE_RE = /\b(?:all|none|both|neither) of (?:the )?(?:above|these|them)\b/i;
+
+const allOfTheAbove: LintRule<Record<string, never>> = {
+  id: "all-of-the-above",
+  description: "\"All/None of the above\" choices reward test-taking tricks and break when answers are shuffled.",
+  defaultSeverity: "warning",
+  defaultOptions: {},
+  check({ quiz, report }) {
+    questionsWithChoices(quiz).forEach(({ question, qIdx }) => {
+      question.choices.forEach((choice, cIdx) => {
+        if (!ABOVE_RE.test(choice)) return;
+        const shuffled = quiz.settings.shuffleAnswers
+          ? " Answers are shuffled, so \"above\" will not mean the same choices for every student."
+          : "";
+        report(`/questions/${qIdx}/choices/${cIdx}`, `${question.id}: avoid "${choice}" as a choice.${shuffled}`);
+      });
+    });
+  }
+};
+
+const correctIndexPattern: LintRule<{ maxShare: number; minQuestions: number }> = {
+  id: "correct-index-pattern",
+  description: "The correct answer sits in the same position too often, which students learn to guess.",
+  defaultSeverity: "warning",
+  defaultOptions: { maxShare: 0.6, minQuestions: 4 },
+  check({ quiz, options, report }) {
+    // Shuffled answers are re-ordered per student, so authored positions do not matter.
+    if (quiz.settings.shuffleAnswers) return;
+    const questions = singleAnswerQuestions(quiz).map(({ question }) => question);
+    const total = questions.length;
+    if (total < options.minQuestions) return;
+
+    const counts = new Map<number, number>();
+    for (const question of questions) {
+      counts.set(question.correctIndex, (counts.get(question.correctIndex) ?? 0) + 1);
+    }
+    for (const [index, count] of counts) {
+      if (count / total > options.maxShare) {
+        report(
+          "/questions",
+          `The correct answer is choice ${index + 1} in ${count} of ${total} questions. Vary the position or set settings.shuffleAnswers.`
+        );
+      }
+    }
+  }
+};
+
+const longestChoiceIsCorrect: LintRule<{ ratio: number }> = {
+  id: "longest-choice-is-correct",
+  description: "The correct choice is noticeably longer than every distractor.",
+  defaultSeverity: "warning",
+  defaultOptions: { ratio: 1.5 },
+  check({ quiz, options, report }) {
+    singleAnswerQuestions(quiz).forEach(({ question, qIdx }) => {
+      const correct = question.choices[question.correctIndex];
+      const distractors = question.choices.filter((_, idx) => idx !== question.correctIndex);
+      if (!correct || distractors.length === 0) return;
+      const longestDistractor = Math.max(...distractors.map((choice) => choice.trim().length));
+      const average = distractors.reduce((sum, choice) => sum + choice.trim().length, 0) / distractors.length;
+      if (correct.trim().length > longestDistractor && correct.trim().length >= average * options.ratio) {
+        report(
+          `/questions/${qIdx}/choices/${question.correctIndex}`,
+          `${question.id}: the correct choice is ${correct.trim().length} characters; distractors average ${Math.round(average)}. Balance the lengths.`
+        );
+      }
+    });
+  }
+};
+
+const readingLevelRule: LintRule<{ gradeAllowance: number; minWords: number }> = {
+  id: "reading-level",
+  description: "A prompt reads above the quiz's declared yearLevel (Flesch-Kincaid grade).",
+  defaultSeverity: "warning",
+  defaultOptions: { gradeAllowance: 2, minWords: 10 },
+  check({ quiz, options, report }) {
+    const limit = quiz.yearLevel.max + options.gradeAllowance;
+    quiz.questions.forEach((question, qIdx) => {
+      const level = readingLevel(question.prompt);
+      // Grade formulas are noise on very short prompts.
+      if (level.words < options.minWords) return;
+      if (level.grade > limit) {
+        report(
+          `/questions/${qIdx}/prompt`,
+          `${question.id}: prompt reads at about grade ${level.grade}, above Year ${quiz.yearLevel.max} (+${options.gradeAllowance} allowed). Use shorter sentences and simpler words.`
+        );
+      }
+    });
+  }
+};
+
+export const BUILT_IN_LINT_RULES: LintRule[] = [
+  nearDuplicateChoices,
+  allOfTheAbove,
+  correctIndexPattern,
+  longestChoiceIsCorrect,
+  readingLevelRule
+];
@@ -0,0 +1,422 @@
+import { QUIZ_OPTION_KINDS } from "../quizSettings.js";
+import type { NexgenQuizV1, QuizDifficulty, QuizImage, QuizTextFormat } from "../types.js";
+
+type MarkdownQuestion = NexgenQuizV1["questions"][number];
+
+export type QuizMarkdownOptions = {
+  /** Prefixed to line-numbered errors, e.g. the file path. */
+  sourceName?: string;
+};
+
+export type QuizMarkdownResult = {
+  quiz: NexgenQuizV1;
+  warnings: string[];
+};
+
+export type QuizMarkdownProblem = {
+  line: number;
+  message: string;
+};
+
+export class QuizMarkdownError extends Error {
+  /** Sorted by line. */
+  readonly problems: QuizMarkdownProblem[];
+
+  constructor(sourceName: string, problems: QuizMarkdownProblem[]) {
+    const report = problems.map(({ line, message }) => `${sourceName}:${line}: ${message}`);
+    super(`Quiz Markdown could not be parsed:\n- ${report.join("\n- ")}`);
+    this.name = "QuizMarkdownError";
+    this.problems = problems;
+  }
+}
+
+type FrontMatterValue = string | string[];
+
+type FrontMatterEntry = {
+  value: FrontMatterValue;
+  line: number;
+};
+
+type QuestionDraft = {
+  line: number;
+  number: number;
+  promptLines: string[];
+  images: QuizImage[];
+  choices: Array<{ text: string; correct: boolean; line: number }>;
+  explanationLines: string[];
+  difficulty?: QuizDifficulty;
+  points?: number;
+  outcomeTags?: string[];
+};
+
+const TOP_LEVEL_KEYS = new Set(["id", "title", "description", "textFormat", "topic", "tags", "yearLevel", "settings"]);
+const NESTED_KEYS: Record<string, Set<string>> = {
+  yearLevel: new Set(["min", "max"]),
+  settings: new Set(["questionCount", "choicesPerQuestion", ...Object.keys(QUIZ_OPTION_KINDS)])
+};
+
+const QUESTION_RE = /^(\d+)[.)]\s+(.*)$/;
+const CHOICE_RE = /^\s*([-*])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const EXPLANATION_RE = /^\s*>\s?(.*)$/;
+const IMAGE_RE = /^\s*!\[([^\]]*)\]\(\s*([^)\s]+)\s*\)$/;
+const QUESTION_META_RE = /^\s*(difficulty|points|outcomeTags)\s*:\s*(.*)$/i;
+const KEY_VALUE_RE = /^(\s*)([A-Za-z][A-Za-z0-9]*)\s*:\s*(.*)$/;
+
+function parseScalar(raw: string): FrontMatterValue {
+  const value = raw.trim();
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value.slice(1, -1).split(",").map((item) => unquote(item.trim())).filter(Boolean);
+  }
+  return unquote(value);
+}
+
+function unquote(value: string): string {
+  const quoted = value.match(/^(["'])(.*)\1$/);
+  return quoted ? quoted[2] : value;
+}
+
+function splitList(value: FrontMatterValue): string[] {
+  return (Array.isArray(value) ? value : value.split(",")).map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Reads the YAML-ish front matter: `key: value` lines plus one level of indented keys under
+ * `yearLevel:` and `settings:`. Lists are `[a, b]` or comma separated. This is not full YAML.
+ */
+function parseFrontMatter(
+  lines: string[],
+  firstLine: number,
+  fail: (line: number, message: string) => void
+): Map<string, FrontMatterEntry> {
+  const entries = new Map<string, FrontMatterEntry>();
+  let parent: string | undefined;
+
+  lines.forEach((text, idx) => {
+    const line = firstLine + idx;
+    if (!text.trim() || text.trim().startsWith("#")) return;
+
+    const match = text.match(KEY_VALUE_RE);
+    if (!match) {
+      fail(line, `Expected "key: value" in front matter, got "${text.trim()}".`);
+      return;
+    }
+    const [, indent, key, rawValue] = match;
+
+    if (indent.length > 0) {
+      if (!parent) {
+        fail(line, `Indented key "${key}" has no parent (only yearLevel and settings take nested keys).`);
+      } else if (!NESTED_KEYS[parent].has(key)) {
+        fail(line, `Unknown ${parent} key "${key}". Expected one of: ${[...NESTED_KEYS[parent]].join(", ")}.`);
+      } else {
+        entries.set(`${parent}.${key}`, { value: parseScalar(rawValue), line });
+      }
+      return;
+    }
+
+    parent = undefined;
+    if (!TOP_LEVEL_KEYS.has(key)) {
+      fail(line, `Unknown front matter key "${key}". Expected one of: ${[...TOP_LEVEL_KEYS].join(", ")}.`);
+      return;
+    }
+    if (NESTED_KEYS[key] && rawValue.trim() === "") {
+      parent = key;
+      return;
+    }
+    entries.set(key, { value: parseScalar(rawValue), line });
+  });
+
+  return entries;
+}
+
+/**
+ * Parses the Markdown authoring format into `nexgen-quiz.v1` JSON:
+ *
+ * ```md
+ * ---
+ * title: Intro to Circuits
+ * yearLevel: 7-10
+ * settings:
+ *   timeLimitMinutes: 6
+ * ---
+ *
+ * 1. Which unit is used to measure electrical voltage?
+ *    - Amps
+ *    * Volts
+ *    > Voltage is measured in volts (V).
+ * ```
+ *
+ * `*` (or `- [x]`) marks the correct choice and `>` lines hold the explanation. Question ids are
+ * assigned Q1..Qn in order. Problems are reported together as `source:line: message`; the result
+ * still needs `validateNexgenQuiz`.
+ */
+export function parseQuizMarkdown(text: string, options: QuizMarkdownOptions = {}): QuizMarkdownResult {
+  const sourceName = options.sourceName ?? "quiz.md";
+  const errors: QuizMarkdownProblem[] = [];
+  const warnings: string[] = [];
+  const fail = (line: number, message: string): void => {
+    errors.push({ line, message });
+  };
+  const parseError = (): QuizMarkdownError =>
+    new QuizMarkdownError(sourceName, [...errors].sort((a, b) => a.line - b.line));
+
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  let cursor = 0;
+  while (cursor < lines.length && !lines[cursor].trim()) cursor += 1;
+
+  let frontMatter = new Map<string, FrontMatterEntry>();
+  if (lines[cursor]?.trim() === "---") {
+    const end = lines.findIndex((line, idx) => idx > cursor && line.trim() === "---");
+    if (end === -1) {
+      fail(cursor + 1, "Front matter starts with --- but is never closed.");
+      throw parseError();
+    }
+    frontMatter = parseFrontMatter(lines.slice(cursor + 1, end), cursor + 2, fail);
+    cursor = end + 1;
+  }
+
+  let headingTitle: string | undefined;
+  const drafts: QuestionDraft[] = [];
+  let current: QuestionDraft | undefined;
+
+  for (let idx = cursor; idx < lines.length; idx += 1) {
+    const line = idx + 1;
+    const raw = lines[idx];
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+
+    const heading = raw.match(/^#\s+(.*)$/);
+    if (heading) {
+      if (current || headingTitle) {
+        fail(line, "Headings are only allowed once, before the first question (as the quiz title).");
+      } else {
+        headingTitle = heading[1].trim();
+      }
+      continue;
+    }
+
+    const question = raw.match(QUESTION_RE);
+    if (question) {
+      current = {
+        line,
+        number: Number(question[1]),
+        promptLines: [question[2].trim()],
+        images: [],
+        choices: [],
+        explanationLines: []
+      };
+      drafts.push(current);
+      continue;
+    }
+
+    if (!current) {
+      fail(line, `Expected a numbered question (e.g. "1. What is ...?"), got "${trimmed}".`);
+      continue;
+    }
+
+    const image = raw.match(IMAGE_RE);
+    if (image) {
+      if (current.choices.length > 0) {
+        fail(line, "Images must come before the choices.");
+      } else if (!image[1].trim()) {
+        fail(line, "Images need alt text for students using screen readers, e.g. \"![Wiring diagram](led.png)\".");
+      } else {
+        current.images.push({ src: image[2], alt: image[1].trim() });
+      }
+      continue;
+    }
+
+    const choice = raw.match(CHOICE_RE);
+    if (choice) {
+      if (current.explanationLines.length > 0) {
+        fail(line, "Choices must come before the explanation.");
+      }
+      const [, bullet, box, choiceText] = choice;
+      const correct = bullet === "*" || (box !== undefined && box.toLowerCase() === "x");
+      current.choices.push({ text: choiceText.trim(), correct, line });
+      continue;
+    }
+
+    const explanation = raw.match(EXPLANATION_RE);
+    if (explanation) {
+      const explanationText = explanation[1].trim();
+      current.explanationLines.push(
+        current.explanationLines.length === 0 ? explanationText.replace(/^explanation:\s*/i, "") : explanationText
+      );
+      continue;
+    }
+
+    const meta = current.choices.length > 0 ? raw.match(QUESTION_META_RE) : null;
+    if (meta) {
+      const value = meta[2].trim();
+      if (meta[1].toLowerCase() === "difficulty") {
+        if (value === "easy" || value === "medium" || value === "hard") {
+          current.difficulty = value;
+        } else {
+          fail(line, `Difficulty must be easy, medium or hard (got "${value}").`);
+        }
+      } else if (meta[1].toLowerCase() === "points") {
+        const points = Number(value);
+        if (value !== "" && points > 0 && points <= 100) {
+          current.points = points;
+        } else {
+          fail(line, `Points must be a number above 0 and at most 100 (got "${value}").`);
+        }
+      } else {
+        current.outcomeTags = splitList(parseScalar(value));
+      }
+      continue;
+    }
+
+    if (current.choices.length === 0) {
+      // Wrapped prompt text.
+      current.promptLines.push(trimmed);
+      continue;
+    }
+
+    fail(line, `Unexpected text after the choices of question ${current.number}: "${trimmed}".`);
+  }
+
+  if (drafts.length === 0) {
+    fail(lines.length, "No questions found. Start each question with a number, e.g. \"1. What is ...?\".");
+  }
+
+  const choicesPerQuestion = drafts[0]?.choices.length ?? 0;
+  // Wrapped plain prompts are reflowed; Markdown and HTML prompts keep their line breaks (code, lists).
+  const promptFormat = frontMatter.get("textFormat")?.value ?? "plain";
+  const promptSeparator = promptFormat === "plain" ? " " : "\n";
+  const questions: MarkdownQuestion[] = [];
+  drafts.forEach((draft, idx) => {
+    const id = `Q${idx + 1}`;
+    if (draft.number !== idx + 1) {
+      warnings.push(`Line ${draft.line}: question numbered ${draft.number} is question ${idx + 1}; it becomes ${id}.`);
+    }
+    if (draft.choices.length === 0) {
+      fail(draft.line, `Question ${draft.number} has no choices. List them as "- choice" lines.`);
+      return;
+    }
+    if (draft.choices.length !== choicesPerQuestion) {
+      fail(
+        draft.line,
+        `Question ${draft.number} has ${draft.choices.length} choices but question ${drafts[0].number} has ${choicesPerQuestion}; every question needs the same number.`
+      );
+    }
+    const correct = draft.choices.flatMap((choice, choiceIdx) => (choice.correct ? [choiceIdx] : []));
+    if (correct.length !== 1) {
+      fail(
+        draft.line,
+        `Question ${draft.number} needs exactly one correct choice marked with "*" (found ${correct.length}).`
+      );
+      return;
+    }
+    const empty = draft.choices.find((choice) => !choice.text);
+    if (empty) {
+      fail(empty.line, `Question ${draft.number} has an empty choice.`);
+      return;
+    }
+
+    const question: MarkdownQuestion = {
+      id,
+      type: "multiple_choice",
+      prompt: draft.promptLines.join(promptSeparator),
+      ...(draft.images.length > 0 ? { images: draft.images } : {}),
+      choices: draft.choices.map((choice) => choice.text),
+      correctIndex: correct[0]
+    };
+    if (draft.points !== undefined) question.points = draft.points;
+    if (draft.explanationLines.length > 0) question.explanation = draft.explanationLines.join(" ").trim();
+    if (draft.difficulty) question.difficulty = draft.difficulty;
+    if (draft.outcomeTags?.length) question.outcomeTags = draft.outcomeTags;
+    questions.push(question);
+  });
+
+  const readInteger = (key: string): number | undefined => {
+    const entry = frontMatter.get(key);
+    if (!entry) return undefined;
+    const value = Number(entry.value);
+    if (typeof entry.value !== "string" || !Number.isInteger(value)) {
+      fail(entry.line, `${key} must be a whole number (got "${String(entry.value)}").`);
+      return undefined;
+    }
+    return value;
+  };
+  const readString = (key: string): string | undefined => {
+    const entry = frontMatter.get(key);
+    if (!entry) return undefined;
+    if (typeof entry.value !== "string") {
+      fail(entry.line, `${key} must be a single value, not a list.`);
+      return undefined;
+    }
+    return entry.value || undefined;
+  };
+
+  // yearLevel accepts "7-10", a single year, or nested min/max keys.
+  let yearMin = readInteger("yearLevel.min");
+  let yearMax = readInteger("yearLevel.max");
+  const yearEntry = frontMatter.get("yearLevel");
+  if (yearEntry) {
+    const range = typeof yearEntry.value === "string" ? yearEntry.value.match(/^(\d+)\s*(?:-\s*(\d+))?$/) : null;
+    if (range) {
+      yearMin = Number(range[1]);
+      yearMax = Number(range[2] ?? range[1]);
+    } else {
+      fail(yearEntry.line, `yearLevel must look like "7-10" or "8" (got "${String(yearEntry.value)}").`);
+    }
+  }
+  const title = readString("title") ?? headingTitle;
+  if (!title) fail(1, "Missing quiz title. Add \"title:\" to the front matter or a \"# Title\" heading.");
+  if (!yearEntry && (yearMin === undefined || yearMax === undefined)) {
+    fail(1, "Missing yearLevel. Add \"yearLevel: 7-10\" to the front matter.");
+  }
+
+  const settings: NexgenQuizV1["settings"] = {
+    questionCount: readInteger("settings.questionCount") ?? questions.length,
+    choicesPerQuestion: readInteger("settings.choicesPerQuestion") ?? choicesPerQuestion
+  };
+  for (const [key, kind] of Object.entries(QUIZ_OPTION_KINDS)) {
+    const path = `settings.${key}`;
+    const entry = frontMatter.get(path);
+    if (!entry) continue;
+    let value: boolean | number | string | undefined;
+    if (kind === "integer") {
+      value = readInteger(path);
+    } else if (kind === "boolean") {
+      if (entry.value === "true" || entry.value === "false") {
+        value = entry.value === "true";
+      } else {
+        fail(entry.line, `${path} must be true or false (got "${String(entry.value)}").`);
+      }
+    } else {
+      value = readString(path);
+    }
+    if (value !== undefined) (settings as Record<string, unknown>)[key] = value;
+  }
+
+  const id = readString("id");
+  const description = readString("description");
+  // Checked against the schema with the rest of the quiz.
+  const textFormat = readString("textFormat") as QuizTextFormat | undefined;
+  const topic = readString("topic");
+  const tags = frontMatter.get("tags");
+
+  if (errors.length > 0) throw parseError();
+
+  // Same key order as the JSON examples, so a converted file diffs cleanly.
+  const quiz: NexgenQuizV1 = {
+    schemaVersion: "nexgen-quiz.v1",
+    ...(id ? { id } : {}),
+    title: title as string,
+    ...(description ? { description } : {}),
+    ...(textFormat ? { textFormat } : {}),
+    ...(topic ? { topic } : {}),
+    ...(tags ? { tags: splitList(tags.value) } : {}),
+    yearLevel: { min: yearMin, max: yearMax } as NexgenQuizV1["yearLevel"],
+    settings,
+    questions,
+    source: {
+      generator: "markdown-import",
+      generatedAtUtc: new Date().toISOString()
+    }
+  };
+
+  return { quiz, warnings };
+}
@@ -0,0 +1,222 @@
+import { createHash } from "node:crypto";
+import { escapeHtml } from "../../util/html.js";
+import { questionPoints } from "../quizMapper.js";
+import { renderQuizText } from "../quizText.js";
+import type { NexgenQuizV1, QuizImage, QuizPointsByDifficulty, QuizTextFormat } from "../types.js";
+
+export type PrintVersionOptions = {
+  /** Shuffles each question's choices; the same seed and label always give the same order. */
+  shuffle?: boolean;
+  seed?: string;
+  /** Version name printed on both documents, e.g. "A". Part of the shuffle seed. */
+  label?: string;
+  pointsByDifficulty?: QuizPointsByDifficulty;
+};
+
+export type PrintedChoice = {
+  letter: string;
+  text: string;
+  correct: boolean;
+  feedback?: string;
+};
+
+export type PrintedQuestion = {
+  number: number;
+  id: string;
+  prompt: string;
+  format: QuizTextFormat;
+  images: QuizImage[];
+  choices: PrintedChoice[];
+  points: number;
+  explanation?: string;
+};
+
+/** One printable version of a quiz: what both the handout and its answer key are built from. */
+export type PrintVersion = {
+  title: string;
+  label?: string;
+  questions: PrintedQuestion[];
+  totalPoints: number;
+};
+
+export type PrintHtmlOptions = {
+  /** Image `src` -> URL the HTML page can load (relative to where it is written). */
+  imageUrls?: Map<string, string>;
+};
+
+const LETTERS = "ABCDEFGH";
+
+/** Deterministic [0, 1) generator seeded from a string (SHA-256 seed, mulberry32 steps). */
+function seededRandom(seed: string): () => number {
+  let state = createHash("sha256").update(seed).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffled<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let idx = out.length - 1; idx > 0; idx -= 1) {
+    const swap = Math.floor(random() * (idx + 1));
+    [out[idx], out[swap]] = [out[swap], out[idx]];
+  }
+  return out;
+}
+
+/**
+ * Numbers questions and letters choices for printing. Each question is shuffled from its own
+ * seed (seed, label and question id), so editing one question does not reorder the others.
+ * Questions stay in file order, and grouped questions are all printed.
+ */
+export function buildPrintVersion(quiz: NexgenQuizV1, options: PrintVersionOptions = {}): PrintVersion {
+  const seed = options.seed ?? quiz.id ?? quiz.title;
+  const groups = new Map((quiz.groups ?? []).map((group) => [group.id, group]));
+
+  const questions = quiz.questions.map((question, idx): PrintedQuestion => {
+    const choices = question.choices.map((text, choiceIdx) => ({
+      text,
+      correct: choiceIdx === question.correctIndex,
+      feedback: question.choiceFeedback?.[choiceIdx]?.trim() || undefined
+    }));
+    const ordered = options.shuffle
+      ? shuffled(choices, seededRandom(`${seed}:${options.label ?? ""}:${question.id}`))
+      : choices;
+    const group = question.group ? groups.get(question.group) : undefined;
+    return {
+      number: idx + 1,
+      id: question.id,
+      prompt: question.prompt,
+      format: question.textFormat ?? quiz.textFormat ?? "plain",
+      images: question.images ?? [],
+      choices: ordered.map((choice, choiceIdx) => ({ letter: LETTERS[choiceIdx], ...choice })),
+      points: group?.questionPoints ?? questionPoints(question, options.pointsByDifficulty),
+      explanation: question.explanation
+    };
+  });
+
+  return {
+    title: quiz.title,
+    label: options.label,
+    questions,
+    totalPoints: questions.reduce((sum, question) => sum + question.points, 0)
+  };
+}
+
+export function correctChoice(question: PrintedQuestion): PrintedChoice {
+  return question.choices.find((choice) => choice.correct)!;
+}
+
+export function formatPrintPoints(points: number): string {
+  return `${points} ${points === 1 ? "mark" : "marks"}`;
+}
+
+const PRINT_CSS = `
+@page { size: A4; margin: 18mm 16mm; }
+body { font-family: "Helvetica Neue", Arial, sans-serif; font-size: 11pt; color: #000; margin: 0; }
+h1 { font-size: 18pt; margin: 0 0 4pt; }
+.subtitle { font-size: 10pt; color: #444; margin-bottom: 10pt; }
+.fields { display: flex; gap: 16pt; margin: 10pt 0 14pt; }
+.fields span { flex: 1; border-bottom: 1px solid #000; padding-bottom: 2pt; }
+.instructions { font-style: italic; margin-bottom: 12pt; }
+.question { break-inside: avoid; page-break-inside: avoid; margin-bottom: 12pt; }
+.question-head { display: flex; justify-content: space-between; font-weight: bold; }
+.question-head .points { font-weight: normal; color: #444; }
+.prompt p { margin: 2pt 0; }
+.prompt img { max-width: 100%; }
+pre { font-size: 9.5pt; border: 1px solid #999; padding: 4pt 6pt; white-space: pre-wrap; }
+ol.choices { list-style: none; padding-left: 14pt; margin: 4pt 0 0; }
+ol.choices li { margin: 3pt 0; }
+.letter { display: inline-block; width: 18pt; font-weight: bold; }
+.correct { font-weight: bold; }
+.grid { display: grid; grid-template-columns: repeat(5, 1fr); gap: 2pt 12pt; border: 1px solid #000; padding: 6pt 8pt; margin-bottom: 14pt; }
+.explanation, .feedback { font-size: 10pt; color: #222; margin: 2pt 0 0 32pt; }
+.feedback { margin-left: 50pt; }
+`;
+
+function page(title: string, body: string[]): string {
+  return [
+    "<!DOCTYPE html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "<meta charset=\"utf-8\">",
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${PRINT_CSS}</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    ""
+  ].join("\n");
+}
+
+function versionSuffix(version: PrintVersion): string {
+  return version.label ? ` (Version ${version.label})` : "";
+}
+
+function promptHtml(question: PrintedQuestion, options: PrintHtmlOptions): string {
+  const images = question.images
+    .map((image) => {
+      const url = options.imageUrls?.get(image.src) ?? image.src;
+      const width = image.width ? ` width="${image.width}"` : "";
+      return `<p><img src="${escapeHtml(url)}" alt="${escapeHtml(image.alt)}"${width}></p>`;
+    })
+    .join("");
+  return `<div class="prompt">${renderQuizText(question.prompt, question.format)}${images}</div>`;
+}
+
+function questionHead(question: PrintedQuestion): string {
+  return `<div class="question-head"><span>${question.number}.</span>`
+    + `<span class="points">${formatPrintPoints(question.points)}</span></div>`;
+}
+
+/** The student handout: name fields, questions and lettered choices, no answers. */
+export function renderPrintHandoutHtml(version: PrintVersion, options: PrintHtmlOptions = {}): string {
+  const title = `${version.title}${versionSuffix(version)}`;
+  const questions = version.questions.map((question) =>
+    `<section class="question">${questionHead(question)}${promptHtml(question, options)}`
+    + `<ol class="choices">${question.choices.map((choice) =>
+      `<li><span class="letter">${choice.letter}</span>${renderQuizText(choice.text, question.format, true)}</li>`
+    ).join("")}</ol></section>`
+  );
+  return page(title, [
+    `<h1>${escapeHtml(version.title)}</h1>`,
+    `<div class="subtitle">${version.label ? `Version ${escapeHtml(version.label)} &middot; ` : ""}`
+      + `${version.questions.length} questions &middot; ${formatPrintPoints(version.totalPoints)}</div>`,
+    "<div class=\"fields\"><span>Name:</span><span>Class:</span><span>Date:</span></div>",
+    "<div class=\"instructions\">Circle the letter of the best answer for each question.</div>",
+    ...questions
+  ]);
+}
+
+/** The teacher's key: a letter grid for quick marking, then each question with its answer and feedback. */
+export function renderPrintAnswerKeyHtml(version: PrintVersion, options: PrintHtmlOptions = {}): string {
+  const title = `${version.title}${versionSuffix(version)}: answer key`;
+  const grid = version.questions
+    .map((question) => `<span><strong>${question.number}.</strong> ${correctChoice(question).letter}</span>`)
+    .join("");
+  const questions = version.questions.map((question) => {
+    const choices = question.choices.map((choice) =>
+      `<li${choice.correct ? " class=\"correct\"" : ""}><span class="letter">${choice.letter}</span>`
+      + `${renderQuizText(choice.text, question.format, true)}${choice.correct ? " &#10003;" : ""}`
+      + (choice.feedback ? `<div class="feedback">${renderQuizText(choice.feedback, question.format, true)}</div>` : "")
+      + "</li>"
+    ).join("");
+    const explanation = question.explanation
+      ? `<div class="explanation">${renderQuizText(question.explanation, question.format)}</div>`
+      : "";
+    return `<section class="question">${questionHead(question)}${promptHtml(question, options)}`
+      + `<ol class="choices">${choices}</ol>${explanation}</section>`;
+  });
+  return page(title, [
+    `<h1>${escapeHtml(version.title)}: answer key</h1>`,
+    `<div class="subtitle">${version.label ? `Version ${escapeHtml(version.label)} &middot; ` : ""}`
+      + `Total ${formatPrintPoints(version.totalPoints)}</div>`,
+    `<div class="grid">${grid}</div>`,
+    ...questions
+  ]);
+}
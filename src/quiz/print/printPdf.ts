@@ -0,0 +1,267 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from "pdf-lib";
+import { decodeHtmlEntities, toPlainText } from "../../util/html.js";
+import type { LocalQuizImage } from "../quizImages.js";
+import { renderQuizText } from "../quizText.js";
+import type { QuizTextFormat } from "../types.js";
+import { correctChoice, formatPrintPoints, type PrintedQuestion, type PrintVersion } from "./printExport.js";
+
+export type PrintDocumentKind = "handout" | "answer-key";
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4 in points
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_SIZE[0] - MARGIN * 2;
+const BODY_SIZE = 11;
+const SMALL_SIZE = 9.5;
+const CHOICE_INDENT = 18;
+const PX_TO_PT = 0.75;
+
+/** Stand-ins for common characters the standard PDF fonts (WinAnsi) cannot show. */
+const CHAR_FALLBACKS: Record<string, string> = {
+  "≤": "<=",
+  "≥": ">=",
+  "≠": "!=",
+  "−": "-",
+  "✓": "(correct)",
+  "Ω": "Ohm",
+  "π": "pi",
+  "√": "sqrt",
+  "→": "->",
+  "←": "<-"
+};
+
+type Fonts = {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  mono: PDFFont;
+};
+
+type TextBlock = { code: boolean; text: string };
+
+type Line =
+  | { kind: "text"; text: string; font: PDFFont; size: number; indent: number; gap: number }
+  | { kind: "image"; image?: PDFImage; alt: string; width: number; height: number; indent: number }
+  | { kind: "space"; height: number };
+
+function lineHeight(line: Line): number {
+  if (line.kind === "space") return line.height;
+  if (line.kind === "image") return line.height + 4;
+  return line.size * 1.35 + line.gap;
+}
+
+/**
+ * Rendered question HTML as paragraphs and code blocks, the only structure paper needs.
+ * Code keeps its line breaks; everything else goes through `toPlainText` (equations become `$...$`).
+ */
+function textBlocks(text: string, format: QuizTextFormat, inline = false): TextBlock[] {
+  const html = renderQuizText(text, format, inline);
+  return html
+    .split(/<pre\b[^>]*>([\s\S]*?)<\/pre>/i)
+    .flatMap((part, idx): TextBlock[] => {
+      if (idx % 2 === 1) return [{ code: true, text: decodeHtmlEntities(part.replace(/<[^>]+>/g, "")) }];
+      return part
+        .split(/<\/p>|<br\s*\/?>|<\/li>/i)
+        .map((piece) => toPlainText(piece))
+        .filter((piece) => piece !== "")
+        .map((piece) => ({ code: false, text: piece }));
+    });
+}
+
+class PrintLayout {
+  private page: PDFPage;
+  private y: number;
+
+  constructor(private readonly doc: PDFDocument, private readonly fonts: Fonts) {
+    this.page = doc.addPage(PAGE_SIZE);
+    this.y = PAGE_SIZE[1] - MARGIN;
+  }
+
+  /** Replaces characters the font cannot encode, so drawing never throws. */
+  safe(text: string, font: PDFFont): string {
+    const supported = new Set(font.getCharacterSet());
+    return [...text]
+      .map((char) => (supported.has(char.codePointAt(0)!) ? char : CHAR_FALLBACKS[char] ?? "?"))
+      .join("");
+  }
+
+  /** Word-wraps to `width`; words longer than a line are broken mid-word. */
+  wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    let current = "";
+    for (const word of this.safe(text, font).split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+      current = word;
+      while (font.widthOfTextAtSize(current, size) > width) {
+        let cut = current.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(current.slice(0, cut), size) > width) cut -= 1;
+        lines.push(current.slice(0, cut));
+        current = current.slice(cut);
+      }
+    }
+    if (current) lines.push(current);
+    return lines;
+  }
+
+  textLines(text: string, font: PDFFont, size: number, indent = 0, gap = 0): Line[] {
+    return this.wrap(text, font, size, CONTENT_WIDTH - indent).map((line) => ({ kind: "text", text: line, font, size, indent, gap }));
+  }
+
+  blockLines(blocks: TextBlock[], size: number, indent: number, font = this.fonts.regular): Line[] {
+    return blocks.flatMap((block) => {
+      if (!block.code) return this.textLines(block.text, font, size, indent);
+      // Code keeps its own line breaks and indentation; long lines wrap at the page edge.
+      return block.text.split("\n").flatMap((codeLine) => {
+        const safe = this.safe(codeLine.replace(/\t/g, "  "), this.fonts.mono);
+        const perLine = Math.max(1, Math.floor((CONTENT_WIDTH - indent - 10) / this.fonts.mono.widthOfTextAtSize("M", SMALL_SIZE)));
+        const chunks = safe.length === 0 ? [""] : safe.match(new RegExp(`.{1,${perLine}}`, "g"))!;
+        return chunks.map((chunk): Line => ({ kind: "text", text: chunk, font: this.fonts.mono, size: SMALL_SIZE, indent: indent + 10, gap: 0 }));
+      });
+    });
+  }
+
+  /** Draws lines, starting a new page first when `keepTogether` and they would not fit. */
+  draw(lines: Line[], keepTogether = false): void {
+    const total = lines.reduce((sum, line) => sum + lineHeight(line), 0);
+    const atTop = this.y === PAGE_SIZE[1] - MARGIN;
+    if (keepTogether && !atTop && total > this.y - MARGIN && total <= PAGE_SIZE[1] - MARGIN * 2) this.newPage();
+
+    for (const line of lines) {
+      const height = lineHeight(line);
+      if (this.y - height < MARGIN) this.newPage();
+      if (line.kind === "text") {
+        this.page.drawText(line.text, {
+          x: MARGIN + line.indent,
+          y: this.y - line.size,
+          size: line.size,
+          font: line.font,
+          color: rgb(0, 0, 0)
+        });
+      } else if (line.kind === "image") {
+        const x = MARGIN + line.indent;
+        const y = this.y - line.height;
+        if (line.image) {
+          this.page.drawImage(line.image, { x, y, width: line.width, height: line.height });
+        } else {
+          this.page.drawRectangle({ x, y, width: line.width, height: line.height, borderColor: rgb(0.5, 0.5, 0.5), borderWidth: 0.5 });
+          const label = this.wrap(`[Image: ${line.alt}]`, this.fonts.italic, SMALL_SIZE, line.width - 8)[0] ?? "";
+          this.page.drawText(label, { x: x + 4, y: y + line.height / 2 - 3, size: SMALL_SIZE, font: this.fonts.italic });
+        }
+      }
+      this.y -= height;
+    }
+  }
+
+  private newPage(): void {
+    this.page = this.doc.addPage(PAGE_SIZE);
+    this.y = PAGE_SIZE[1] - MARGIN;
+  }
+}
+
+/** PNG and JPEG are embedded; other formats print as a labelled box so the layout still holds. */
+async function embedImages(doc: PDFDocument, images: Map<string, LocalQuizImage>): Promise<Map<string, PDFImage>> {
+  const embedded = new Map<string, PDFImage>();
+  for (const [src, image] of images) {
+    if (image.contentType === "image/png") embedded.set(src, await doc.embedPng(image.bytes));
+    if (image.contentType === "image/jpeg") embedded.set(src, await doc.embedJpg(image.bytes));
+  }
+  return embedded;
+}
+
+function questionLines(
+  layout: PrintLayout,
+  fonts: Fonts,
+  question: PrintedQuestion,
+  kind: PrintDocumentKind,
+  images: Map<string, PDFImage>
+): Line[] {
+  const lines: Line[] = [];
+  const head = `${question.number}.`;
+  const points = formatPrintPoints(question.points);
+  lines.push(...layout.textLines(`${head}  (${points})`, fonts.bold, BODY_SIZE, 0, 2));
+  lines.push(...layout.blockLines(textBlocks(question.prompt, question.format), BODY_SIZE, CHOICE_INDENT));
+
+  for (const image of question.images) {
+    const embedded = images.get(image.src);
+    const natural = embedded ? embedded.width * PX_TO_PT : 240;
+    const width = Math.min(image.width ? image.width * PX_TO_PT : natural, CONTENT_WIDTH - CHOICE_INDENT);
+    const height = embedded ? (width / embedded.width) * embedded.height : 60;
+    lines.push({ kind: "image", image: embedded, alt: image.alt, width, height, indent: CHOICE_INDENT });
+  }
+
+  lines.push({ kind: "space", height: 2 });
+  for (const choice of question.choices) {
+    const correct = kind === "answer-key" && choice.correct;
+    const text = textBlocks(choice.text, question.format, true).map((block) => block.text).join(" ");
+    lines.push(...layout.textLines(
+      `${choice.letter}.  ${text}${correct ? "   (correct)" : ""}`,
+      correct ? fonts.bold : fonts.regular,
+      BODY_SIZE,
+      CHOICE_INDENT
+    ));
+    if (kind === "answer-key" && choice.feedback) {
+      const feedback = textBlocks(choice.feedback, question.format, true).map((block) => block.text).join(" ");
+      lines.push(...layout.textLines(feedback, fonts.italic, SMALL_SIZE, CHOICE_INDENT * 2.5));
+    }
+  }
+  if (kind === "answer-key" && question.explanation) {
+    lines.push({ kind: "space", height: 2 });
+    lines.push(...layout.blockLines(textBlocks(question.explanation, question.format), SMALL_SIZE, CHOICE_INDENT, fonts.italic));
+  }
+  lines.push({ kind: "space", height: 10 });
+  return lines;
+}
+
+/**
+ * The handout or answer key as an A4 PDF, drawn with pdf-lib's built-in fonts: no browser needed.
+ * `images` maps question image `src` to the files `readQuizImages` loaded.
+ */
+export async function renderPrintPdf(
+  version: PrintVersion,
+  kind: PrintDocumentKind,
+  images: Map<string, LocalQuizImage> = new Map()
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const title = `${version.title}${kind === "answer-key" ? ": answer key" : ""}`;
+  doc.setTitle(version.label ? `${title} (Version ${version.label})` : title);
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(StandardFonts.HelveticaOblique),
+    mono: await doc.embedFont(StandardFonts.Courier)
+  };
+  const embedded = await embedImages(doc, images);
+  const layout = new PrintLayout(doc, fonts);
+
+  const subtitle = [
+    version.label ? `Version ${version.label}` : undefined,
+    kind === "handout" ? `${version.questions.length} questions` : undefined,
+    `${kind === "handout" ? "" : "Total "}${formatPrintPoints(version.totalPoints)}`
+  ].filter(Boolean).join("  |  ");
+  const header: Line[] = [
+    ...layout.textLines(title, fonts.bold, 18),
+    ...layout.textLines(subtitle, fonts.regular, SMALL_SIZE, 0, 6)
+  ];
+  if (kind === "handout") {
+    const fields = "Name: ______________________     Class: ______________     Date: ______________";
+    header.push({ kind: "text", text: fields, font: fonts.regular, size: BODY_SIZE, indent: 0, gap: 6 });
+    header.push(...layout.textLines("Circle the letter of the best answer for each question.", fonts.italic, BODY_SIZE, 0, 6));
+  } else {
+    // Eight answers per row, spaced by hand (wrapping would collapse the gaps).
+    const cells = version.questions.map((question) => `${question.number}. ${correctChoice(question).letter}`.padEnd(7));
+    for (let idx = 0; idx < cells.length; idx += 8) {
+      header.push({ kind: "text", text: cells.slice(idx, idx + 8).join("  "), font: fonts.mono, size: BODY_SIZE, indent: 0, gap: 2 });
+    }
+  }
+  header.push({ kind: "space", height: 6 });
+  layout.draw(header);
+
+  for (const question of version.questions) {
+    layout.draw(questionLines(layout, fonts, question, kind, embedded), true);
+  }
+  return doc.save();
+}
@@ -0,0 +1,235 @@
+import { strToU8, zipSync } from "fflate";
+import { escapeHtml as escapeXml } from "../../util/html.js";
+import { questionPoints } from "../quizMapper.js";
+import { renderQuizText } from "../quizText.js";
+import type { NexgenQuizV1, QuizPointsByDifficulty, QuizTextFormat } from "../types.js";
+
+type QtiQuestion = NexgenQuizV1["questions"][number];
+
+// Nexgen-only fields travel as extra qtimetadata; other LMSs ignore labels they do not know.
+export const NEXGEN_META = {
+  schemaVersion: "nexgen_schema_version",
+  quizId: "nexgen_quiz_id",
+  yearMin: "nexgen_year_min",
+  yearMax: "nexgen_year_max",
+  topic: "nexgen_topic",
+  tags: "nexgen_tags",
+  difficulty: "nexgen_difficulty",
+  outcomeTags: "nexgen_outcome_tags"
+} as const;
+
+export function qtiIdentifier(quiz: NexgenQuizV1): string {
+  const base = (quiz.id ?? quiz.title)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60);
+  return `nexgen_${base || "quiz"}`;
+}
+
+function metadataFields(fields: Array<[string, string | number | undefined]>, indent: string): string[] {
+  return fields
+    .filter((field): field is [string, string | number] => field[1] !== undefined && field[1] !== "")
+    .map(([label, entry]) =>
+      `${indent}<qtimetadatafield><fieldlabel>${label}</fieldlabel><fieldentry>${escapeXml(String(entry))}</fieldentry></qtimetadatafield>`
+    );
+}
+
+function formatPoints(points: number): string {
+  return Number.isInteger(points) ? points.toFixed(1) : String(points);
+}
+
+/** Markdown and html text goes out as rendered HTML, which QTI carries escaped. */
+function mattext(text: string, format: QuizTextFormat, inline = false): string {
+  return format === "plain"
+    ? `<mattext texttype="text/plain">${escapeXml(text)}</mattext>`
+    : `<mattext texttype="text/html">${escapeXml(renderQuizText(text, format, inline))}</mattext>`;
+}
+
+function renderItem(question: QtiQuestion, format: QuizTextFormat, points: number): string[] {
+  const answerIdent = (idx: number): string => `${question.id}_A${idx}`;
+  const lines: string[] = [];
+
+  lines.push(`      <item ident="${question.id}" title="${question.id}">`);
+  lines.push("        <itemmetadata>");
+  lines.push("          <qtimetadata>");
+  lines.push(...metadataFields([
+    ["question_type", "multiple_choice_question"],
+    ["points_possible", formatPoints(points)],
+    ["original_answer_ids", question.choices.map((_, idx) => answerIdent(idx)).join(",")],
+    [NEXGEN_META.difficulty, question.difficulty],
+    [NEXGEN_META.outcomeTags, question.outcomeTags?.join(",")]
+  ], "            "));
+  lines.push("          </qtimetadata>");
+  lines.push("        </itemmetadata>");
+  lines.push("        <presentation>");
+  lines.push("          <material>");
+  lines.push(`            ${mattext(question.prompt, format)}`);
+  lines.push("          </material>");
+  lines.push("          <response_lid ident=\"response1\" rcardinality=\"Single\">");
+  lines.push("            <render_choice>");
+  question.choices.forEach((choice, idx) => {
+    lines.push(`              <response_label ident="${answerIdent(idx)}">`);
+    lines.push(`                <material>${mattext(choice, format, true)}</material>`);
+    lines.push("              </response_label>");
+  });
+  lines.push("            </render_choice>");
+  lines.push("          </response_lid>");
+  lines.push("        </presentation>");
+  lines.push("        <resprocessing>");
+  lines.push("          <outcomes>");
+  lines.push("            <decvar maxvalue=\"100\" minvalue=\"0\" varname=\"SCORE\" vartype=\"Decimal\"/>");
+  lines.push("          </outcomes>");
+  if (question.explanation) {
+    lines.push("          <respcondition continue=\"Yes\">");
+    lines.push("            <conditionvar><other/></conditionvar>");
+    lines.push("            <displayfeedback feedbacktype=\"Response\" linkrefid=\"general_fb\"/>");
+    lines.push("          </respcondition>");
+  }
+  // Canvas links per-answer feedback as "<answer ident>_fb".
+  question.choiceFeedback?.forEach((feedback, idx) => {
+    if (!feedback.trim()) return;
+    lines.push("          <respcondition continue=\"Yes\">");
+    lines.push(`            <conditionvar><varequal respident="response1">${answerIdent(idx)}</varequal></conditionvar>`);
+    lines.push(`            <displayfeedback feedbacktype="Response" linkrefid="${answerIdent(idx)}_fb"/>`);
+    lines.push("          </respcondition>");
+  });
+  lines.push("          <respcondition continue=\"No\">");
+  lines.push(`            <conditionvar><varequal respident="response1">${answerIdent(question.correctIndex)}</varequal></conditionvar>`);
+  lines.push("            <setvar action=\"Set\" varname=\"SCORE\">100</setvar>");
+  lines.push("          </respcondition>");
+  lines.push("        </resprocessing>");
+  if (question.explanation) {
+    lines.push("        <itemfeedback ident=\"general_fb\">");
+    lines.push(`          <flow_mat><material>${mattext(question.explanation, format)}</material></flow_mat>`);
+    lines.push("        </itemfeedback>");
+  }
+  question.choiceFeedback?.forEach((feedback, idx) => {
+    if (!feedback.trim()) return;
+    lines.push(`        <itemfeedback ident="${answerIdent(idx)}_fb">`);
+    lines.push(`          <flow_mat><material>${mattext(feedback.trim(), format, true)}</material></flow_mat>`);
+    lines.push("        </itemfeedback>");
+  });
+  lines.push("      </item>");
+  return lines;
+}
+
+/** Item points as Canvas would score them: the group's points for grouped questions. */
+function itemPoints(quiz: NexgenQuizV1, question: QtiQuestion, pointsByDifficulty?: QuizPointsByDifficulty): number {
+  const group = quiz.groups?.find((entry) => entry.id === question.group);
+  return group?.questionPoints ?? questionPoints(question, pointsByDifficulty);
+}
+
+function totalPoints(quiz: NexgenQuizV1, pointsByDifficulty?: QuizPointsByDifficulty): number {
+  const ungrouped = quiz.questions
+    .filter((question) => !question.group)
+    .reduce((sum, question) => sum + questionPoints(question, pointsByDifficulty), 0);
+  return (quiz.groups ?? []).reduce((sum, group) => sum + group.pickCount * group.questionPoints, ungrouped);
+}
+
+export function renderQtiAssessment(
+  quiz: NexgenQuizV1,
+  ident: string,
+  pointsByDifficulty?: QuizPointsByDifficulty
+): string {
+  const lines: string[] = [];
+  lines.push("<?xml version=\"1.0\" encoding=\"UTF-8\"?>");
+  lines.push("<questestinterop xmlns=\"http://www.imsglobal.org/xsd/ims_qtiasiv1p2\" xmlns:xsi=\"http://www.w3.org/2001/XMLSchema-instance\" xsi:schemaLocation=\"http://www.imsglobal.org/xsd/ims_qtiasiv1p2 http://www.imsglobal.org/xsd/ims_qtiasiv1p2p1.xsd\">");
+  lines.push(`  <assessment ident="${ident}" title="${escapeXml(quiz.title)}">`);
+  lines.push("    <qtimetadata>");
+  lines.push(...metadataFields([
+    ["cc_maxattempts", quiz.settings.allowedAttempts],
+    [NEXGEN_META.schemaVersion, quiz.schemaVersion],
+    [NEXGEN_META.quizId, quiz.id],
+    [NEXGEN_META.yearMin, quiz.yearLevel.min],
+    [NEXGEN_META.yearMax, quiz.yearLevel.max],
+    [NEXGEN_META.topic, quiz.topic],
+    [NEXGEN_META.tags, quiz.tags?.join(",")]
+  ], "      "));
+  lines.push("    </qtimetadata>");
+  lines.push("    <section ident=\"root_section\">");
+  for (const question of quiz.questions.filter((entry) => !entry.group)) {
+    lines.push(...renderItem(question, question.textFormat ?? quiz.textFormat ?? "plain", itemPoints(quiz, question, pointsByDifficulty)));
+  }
+  // Canvas imports a nested section with a selection as a quiz group. Groups follow the ungrouped
+  // items so `import-qti` reads questions back in the same order.
+  for (const group of quiz.groups ?? []) {
+    lines.push(`    <section ident="${ident}_${group.id.replace(/-/g, "_")}" title="${escapeXml(group.name ?? group.id)}">`);
+    lines.push("      <selection_ordering>");
+    lines.push("        <selection>");
+    lines.push(`          <selection_number>${group.pickCount}</selection_number>`);
+    lines.push(`          <selection_extension><points_per_item>${formatPoints(group.questionPoints)}</points_per_item></selection_extension>`);
+    lines.push("        </selection>");
+    lines.push("      </selection_ordering>");
+    for (const member of quiz.questions.filter((entry) => entry.group === group.id)) {
+      lines.push(...renderItem(member, member.textFormat ?? quiz.textFormat ?? "plain", group.questionPoints));
+    }
+    lines.push("    </section>");
+  }
+  lines.push("    </section>");
+  lines.push("  </assessment>");
+  lines.push("</questestinterop>");
+  return `${lines.join("\n")}\n`;
+}
+
+// Canvas reads quiz settings from this side file rather than from the QTI itself.
+export function renderAssessmentMeta(
+  quiz: NexgenQuizV1,
+  ident: string,
+  pointsByDifficulty?: QuizPointsByDifficulty
+): string {
+  const lines: string[] = [];
+  lines.push("<?xml version=\"1.0\" encoding=\"UTF-8\"?>");
+  lines.push(`<quiz identifier="${ident}" xmlns="http://canvas.instructure.com/xsd/cccv1p0" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://canvas.instructure.com/xsd/cccv1p0 https://canvas.instructure.com/xsd/cccv1p0.xsd">`);
+  lines.push(`  <title>${escapeXml(quiz.title)}</title>`);
+  lines.push(`  <description>${escapeXml(quiz.description ?? "")}</description>`);
+  lines.push(`  <shuffle_answers>${quiz.settings.shuffleAnswers ? "true" : "false"}</shuffle_answers>`);
+  lines.push("  <scoring_policy>keep_highest</scoring_policy>");
+  lines.push("  <quiz_type>assignment</quiz_type>");
+  lines.push(`  <points_possible>${formatPoints(totalPoints(quiz, pointsByDifficulty))}</points_possible>`);
+  if (quiz.settings.timeLimitMinutes !== undefined) {
+    lines.push(`  <time_limit>${quiz.settings.timeLimitMinutes}</time_limit>`);
+  }
+  lines.push(`  <allowed_attempts>${quiz.settings.allowedAttempts ?? 1}</allowed_attempts>`);
+  lines.push("  <available>false</available>");
+  lines.push("</quiz>");
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderManifest(quiz: NexgenQuizV1, ident: string): string {
+  const lines: string[] = [];
+  lines.push("<?xml version=\"1.0\" encoding=\"UTF-8\"?>");
+  lines.push(`<manifest identifier="${ident}_manifest" xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1" xmlns:lom="http://ltsc.ieee.org/xsd/imsccv1p1/LOM/resource" xmlns:imsmd="http://www.imsglobal.org/xsd/imsmd_v1p2" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`);
+  lines.push("  <metadata>");
+  lines.push("    <schema>IMS Content</schema>");
+  lines.push("    <schemaversion>1.1.3</schemaversion>");
+  lines.push("    <imsmd:lom><imsmd:general><imsmd:title>");
+  lines.push(`      <imsmd:string>${escapeXml(quiz.title)}</imsmd:string>`);
+  lines.push("    </imsmd:title></imsmd:general></imsmd:lom>");
+  lines.push("  </metadata>");
+  lines.push("  <organizations/>");
+  lines.push("  <resources>");
+  lines.push(`    <resource identifier="${ident}" type="imsqti_xmlv1p2">`);
+  lines.push(`      <file href="${ident}/${ident}.xml"/>`);
+  lines.push(`      <dependency identifierref="${ident}_meta"/>`);
+  lines.push("    </resource>");
+  lines.push(`    <resource identifier="${ident}_meta" type="associatedcontent/imscc_xmlv1p1/learning-application-resource" href="${ident}/assessment_meta.xml">`);
+  lines.push(`      <file href="${ident}/assessment_meta.xml"/>`);
+  lines.push("    </resource>");
+  lines.push("  </resources>");
+  lines.push("</manifest>");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Builds a Canvas-flavoured IMS QTI 1.2 zip (manifest, assessment and Canvas quiz metadata)
+ * that Canvas "Import Course Content" and most QTI 1.2 importers accept.
+ */
+export function buildQtiPackage(quiz: NexgenQuizV1, pointsByDifficulty?: QuizPointsByDifficulty): Uint8Array {
+  const ident = qtiIdentifier(quiz);
+  return zipSync({
+    "imsmanifest.xml": strToU8(renderManifest(quiz, ident)),
+    [`${ident}/${ident}.xml`]: strToU8(renderQtiAssessment(quiz, ident, pointsByDifficulty)),
+    [`${ident}/assessment_meta.xml`]: strToU8(renderAssessmentMeta(quiz, ident, pointsByDifficulty))
+  });
+}
@@ -0,0 +1,307 @@
+import { strFromU8, unzipSync } from "fflate";
+import { XMLParser } from "fast-xml-parser";
+import { toPlainText } from "../../util/html.js";
+import {
+  fitGroupsToV1,
+  fitQuestionsToV1,
+  type ImportedQuestionGroup,
+  type V1QuestionCandidate
+} from "../quizExport.js";
+import type { NexgenQuizV1, QuizDifficulty } from "../types.js";
+import { NEXGEN_META } from "./qtiExport.js";
+
+type XmlNode = Record<string, unknown>;
+
+export type QtiImportOptions = {
+  /** Used when the package does not carry Nexgen year level metadata. */
+  yearLevel?: NexgenQuizV1["yearLevel"];
+};
+
+export type QtiImportResult = {
+  quiz: NexgenQuizV1;
+  warnings: string[];
+};
+
+const ARRAY_TAGS = new Set([
+  "resource",
+  "file",
+  "assessment",
+  "section",
+  "item",
+  "qtimetadatafield",
+  "response_lid",
+  "response_label",
+  "respcondition",
+  "varequal",
+  "setvar",
+  "itemfeedback",
+  "material",
+  "mattext"
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: (name) => ARRAY_TAGS.has(name)
+});
+
+function asArray(value: unknown): XmlNode[] {
+  if (Array.isArray(value)) return value as XmlNode[];
+  if (value && typeof value === "object") return [value as XmlNode];
+  return [];
+}
+
+function child(node: XmlNode | undefined, name: string): XmlNode | undefined {
+  return asArray(node?.[name])[0];
+}
+
+function textOf(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return value.map(textOf).join("");
+  return textOf((value as XmlNode)["#text"]);
+}
+
+function attr(node: XmlNode | undefined, name: string): string | undefined {
+  const value = node?.[`@_${name}`];
+  return value === undefined ? undefined : String(value);
+}
+
+/** Collects every `mattext` under a node (material or flow_mat) as plain text. */
+function materialText(node: XmlNode | undefined): string {
+  if (!node) return "";
+  const parts: string[] = [];
+  const visit = (current: XmlNode): void => {
+    for (const mattext of asArray(current.mattext)) {
+      const raw = textOf(mattext);
+      parts.push(attr(mattext, "texttype") === "text/html" ? toPlainText(raw) : raw.trim());
+    }
+    for (const key of ["material", "flow_mat", "flow"]) {
+      for (const nested of asArray(current[key])) visit(nested);
+    }
+  };
+  visit(node);
+  return parts.filter(Boolean).join(" ").trim();
+}
+
+function readMetadata(node: XmlNode | undefined): Map<string, string> {
+  const meta = new Map<string, string>();
+  const qtimetadata = child(node, "qtimetadata") ?? child(child(node, "itemmetadata"), "qtimetadata");
+  for (const field of asArray(qtimetadata?.qtimetadatafield)) {
+    meta.set(textOf(field.fieldlabel).trim(), textOf(field.fieldentry).trim());
+  }
+  return meta;
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  const items = (value ?? "").split(",").map((v) => v.trim()).filter(Boolean);
+  return items.length ? items : undefined;
+}
+
+function toYearLevel(value: string | undefined): 7 | 8 | 9 | 10 | undefined {
+  const n = Number(value);
+  return n === 7 || n === 8 || n === 9 || n === 10 ? n : undefined;
+}
+
+type CollectedItem = {
+  item: XmlNode;
+  groupKey?: string;
+};
+
+/** Flattens sections; a section with a `selection` (a Canvas quiz group) is recorded in `groups`. */
+function collectItems(node: XmlNode, groups: ImportedQuestionGroup[], groupKey?: string): CollectedItem[] {
+  const items: CollectedItem[] = asArray(node.item).map((item) => ({ item, groupKey }));
+  for (const section of asArray(node.section)) {
+    const selection = child(child(section, "selection_ordering"), "selection");
+    let key = groupKey;
+    if (selection && !groupKey) {
+      key = attr(section, "ident") ?? `section_${groups.length + 1}`;
+      groups.push({
+        key,
+        name: attr(section, "title") || key,
+        pickCount: Number(textOf(selection.selection_number)) || 1,
+        questionPoints: Number(textOf(child(selection, "selection_extension")?.points_per_item)) || 1
+      });
+    }
+    items.push(...collectItems(section, groups, key));
+  }
+  return items;
+}
+
+function correctAnswerIdents(item: XmlNode): Set<string> {
+  const correct = new Set<string>();
+  for (const condition of asArray(child(item, "resprocessing")?.respcondition)) {
+    const scores = asArray(condition.setvar).map((setvar) => Number(textOf(setvar)));
+    if (!scores.some((score) => score > 0)) continue;
+    for (const varequal of asArray(child(condition, "conditionvar")?.varequal)) {
+      correct.add(textOf(varequal).trim());
+    }
+  }
+  return correct;
+}
+
+function mapItem(item: XmlNode, groupKey: string | undefined, warnings: string[]): V1QuestionCandidate | undefined {
+  const name = attr(item, "title") || attr(item, "ident") || "item";
+  const label = `QTI item "${name}"`;
+  const meta = readMetadata(item);
+  const presentation = child(item, "presentation");
+  const responses = asArray(presentation?.response_lid);
+
+  const questionType = meta.get("question_type")
+    ?? (responses.length === 1 && attr(responses[0], "rcardinality") !== "Multiple" ? "multiple_choice_question" : "unknown");
+  if (questionType !== "multiple_choice_question" && questionType !== "true_false_question") {
+    warnings.push(`${label} skipped: ${questionType} is not supported by nexgen-quiz.v1 (multiple choice only).`);
+    return undefined;
+  }
+
+  const prompt = materialText(presentation);
+  const labels = asArray(child(responses[0], "render_choice")?.response_label);
+  const choices = labels.map((response) => materialText(response));
+  const correct = correctAnswerIdents(item);
+  const correctIndexes = labels.flatMap((response, idx) => (correct.has(attr(response, "ident") ?? "") ? [idx] : []));
+
+  if (prompt.length < 5) {
+    warnings.push(`${label} skipped: prompt is shorter than 5 characters.`);
+    return undefined;
+  }
+  if (choices.length === 0 || choices.some((choice) => choice.length === 0)) {
+    warnings.push(`${label} skipped: missing or empty answer choices.`);
+    return undefined;
+  }
+  if (correctIndexes.length !== 1) {
+    warnings.push(`${label} skipped: needs exactly one correct answer, found ${correctIndexes.length}.`);
+    return undefined;
+  }
+
+  const question: V1QuestionCandidate["question"] = {
+    type: "multiple_choice",
+    prompt,
+    choices,
+    correctIndex: correctIndexes[0]
+  };
+  const points = Number(meta.get("points_possible"));
+  if (groupKey) {
+    question.group = groupKey;
+  } else if (points > 0 && points <= 100 && points !== 1) {
+    question.points = points;
+  }
+
+  const feedback = asArray(item.itemfeedback);
+  const answerFeedbackIdents = new Set(labels.map((response) => `${attr(response, "ident")}_fb`));
+  const general = feedback.find((fb) => attr(fb, "ident") === "general_fb")
+    ?? feedback.find((fb) => !answerFeedbackIdents.has(attr(fb, "ident") ?? ""));
+  const explanation = materialText(general);
+  if (explanation) question.explanation = explanation;
+  const choiceFeedback = labels.map((response) =>
+    materialText(feedback.find((fb) => attr(fb, "ident") === `${attr(response, "ident")}_fb`))
+  );
+  if (choiceFeedback.some(Boolean)) question.choiceFeedback = choiceFeedback;
+
+  const difficulty = meta.get(NEXGEN_META.difficulty);
+  if (difficulty === "easy" || difficulty === "medium" || difficulty === "hard") {
+    question.difficulty = difficulty as QuizDifficulty;
+  }
+  const outcomeTags = splitList(meta.get(NEXGEN_META.outcomeTags));
+  if (outcomeTags) question.outcomeTags = outcomeTags;
+
+  return { name, question };
+}
+
+function findAssessmentPath(files: Record<string, Uint8Array>, warnings: string[]): string {
+  const manifestPath = Object.keys(files).find((file) => file.toLowerCase().endsWith("imsmanifest.xml"));
+  if (manifestPath) {
+    const manifest = parser.parse(strFromU8(files[manifestPath])) as XmlNode;
+    const resources = asArray(child(child(manifest, "manifest"), "resources")?.resource)
+      .filter((resource) => (attr(resource, "type") ?? "").startsWith("imsqti_xmlv1p2"));
+    const hrefs = resources
+      .map((resource) => attr(resource, "href") ?? attr(asArray(resource.file)[0], "href"))
+      .filter((href): href is string => !!href && !!files[href]);
+    if (hrefs.length > 1) {
+      warnings.push(`Package holds ${hrefs.length} assessments; importing only ${hrefs[0]}.`);
+    }
+    if (hrefs.length > 0) return hrefs[0];
+  }
+
+  // Fall back to the first XML file that looks like a QTI assessment.
+  const candidate = Object.keys(files).find(
+    (file) => file.toLowerCase().endsWith(".xml") && strFromU8(files[file]).includes("questestinterop")
+  );
+  if (!candidate) throw new Error("QTI package contains no QTI 1.2 assessment (questestinterop) file.");
+  return candidate;
+}
+
+/**
+ * Parses a QTI 1.2 zip (as exported by Canvas or by `export-qti`) into `nexgen-quiz.v1` JSON.
+ * Settings come from Canvas `assessment_meta.xml` when present. The result still needs
+ * `validateNexgenQuiz`.
+ */
+export function parseQtiPackage(bytes: Uint8Array, options: QtiImportOptions = {}): QtiImportResult {
+  const warnings: string[] = [];
+  const files = unzipSync(bytes);
+  const assessmentPath = findAssessmentPath(files, warnings);
+
+  const doc = parser.parse(strFromU8(files[assessmentPath])) as XmlNode;
+  const assessments = asArray(child(doc, "questestinterop")?.assessment);
+  if (assessments.length === 0) throw new Error(`${assessmentPath} has no <assessment>.`);
+  const assessment = assessments[0];
+  const meta = readMetadata(assessment);
+
+  const sourceGroups: ImportedQuestionGroup[] = [];
+  const candidates = collectItems(assessment, sourceGroups)
+    .map(({ item, groupKey }) => mapItem(item, groupKey, warnings))
+    .filter((candidate): candidate is V1QuestionCandidate => !!candidate);
+  const { questions, choicesPerQuestion } = fitQuestionsToV1(candidates, warnings);
+  if (questions.length === 0) {
+    throw new Error("QTI package has no questions that fit nexgen-quiz.v1.");
+  }
+  const groups = fitGroupsToV1(questions, sourceGroups, warnings);
+
+  const metaPath = assessmentPath.replace(/[^/]+$/, "assessment_meta.xml");
+  const quizMeta = files[metaPath] ? child(parser.parse(strFromU8(files[metaPath])) as XmlNode, "quiz") : undefined;
+
+  const settings: NexgenQuizV1["settings"] = { questionCount: questions.length, choicesPerQuestion };
+  const shuffle = textOf(quizMeta?.shuffle_answers);
+  if (shuffle) settings.shuffleAnswers = shuffle === "true";
+  const timeLimit = Number(textOf(quizMeta?.time_limit) || NaN);
+  if (Number.isInteger(timeLimit) && timeLimit >= 0 && timeLimit <= 180) settings.timeLimitMinutes = timeLimit;
+  const attempts = Number(textOf(quizMeta?.allowed_attempts) || meta.get("cc_maxattempts") || NaN);
+  if (Number.isInteger(attempts) && attempts >= 1 && attempts <= 10) {
+    settings.allowedAttempts = attempts;
+  } else if (!Number.isNaN(attempts)) {
+    warnings.push(`Allowed attempts of ${attempts} is outside 1-10 and was dropped.`);
+  }
+
+  const yearMin = toYearLevel(meta.get(NEXGEN_META.yearMin));
+  const yearMax = toYearLevel(meta.get(NEXGEN_META.yearMax));
+  const yearLevel = yearMin && yearMax
+    ? { min: yearMin, max: yearMax }
+    : options.yearLevel ?? { min: 7 as const, max: 10 as const };
+
+  const quiz: NexgenQuizV1 = {
+    schemaVersion: "nexgen-quiz.v1",
+    title: (textOf(quizMeta?.title) || attr(assessment, "title") || "Imported QTI quiz").trim().slice(0, 120),
+    yearLevel,
+    settings,
+    questions,
+    ...(groups.length > 0 ? { groups } : {}),
+    source: {
+      generator: "qti-import",
+      generatedAtUtc: new Date().toISOString()
+    }
+  };
+
+  const quizId = meta.get(NEXGEN_META.quizId);
+  if (quizId) quiz.id = quizId;
+  const description = toPlainText(textOf(quizMeta?.description));
+  if (description) quiz.description = description.slice(0, 1000);
+  const topic = meta.get(NEXGEN_META.topic);
+  if (topic) quiz.topic = topic;
+  const tags = splitList(meta.get(NEXGEN_META.tags));
+  if (tags) quiz.tags = tags;
+
+  return { quiz, warnings };
+}
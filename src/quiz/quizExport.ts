@@ -0,0 +1,300 @@
+import type { CanvasQuiz, CanvasQuizGroup, CanvasQuizQuestionRecord } from "../canvas/canvasClient.js";
+import { toPlainText } from "../util/html.js";
+import { QUIZ_LIMITS } from "../shared/quizLimits.js";
+import { readQuizIdMarker } from "./quizMapper.js";
+import type { NexgenQuestionGroup, NexgenQuizV1 } from "./types.js";
+
+type YearLevel = NexgenQuizV1["yearLevel"];
+type ExportedQuestion = NexgenQuizV1["questions"][number];
+
+export type CanvasQuizExportOptions = {
+  yearLevel: YearLevel;
+  /** Overrides the stable id read from the Canvas description marker. */
+  id?: string;
+  /** The quiz's question groups; questions in groups not listed here are exported ungrouped. */
+  groups?: CanvasQuizGroup[];
+};
+
+export type CanvasQuizExportResult = {
+  quiz: NexgenQuizV1;
+  warnings: string[];
+};
+
+const QUIZ_ID_MARKER_TEXT_RE = /nexgen-quiz-id:\s*[a-z0-9][a-z0-9-]*/g;
+
+function truncate(value: string, max: number, label: string, warnings: string[]): string {
+  if (value.length <= max) return value;
+  warnings.push(`${label} is ${value.length} characters; truncated to ${max}.`);
+  return value.slice(0, max);
+}
+
+/**
+ * Inverse of `mapToCanvasQuiz` for Classic Quizzes: rebuilds `nexgen-quiz.v1` JSON from a quiz
+ * and its questions. v1 only holds single-answer multiple choice with a uniform choice count, so
+ * anything else is skipped with a warning rather than guessed at.
+ */
+export function mapFromCanvasQuiz(
+  canvasQuiz: CanvasQuiz,
+  records: CanvasQuizQuestionRecord[],
+  options: CanvasQuizExportOptions
+): CanvasQuizExportResult {
+  const warnings: string[] = [];
+  const candidates: V1QuestionCandidate[] = [];
+
+  const sorted = [...records].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+  for (const record of sorted) {
+    const label = `Question "${record.question_name}" (id ${record.id})`;
+    const question = mapQuestionRecord(record, label, warnings);
+    if (question) candidates.push({ name: record.question_name, question });
+  }
+
+  const { questions, choicesPerQuestion } = fitQuestionsToV1(candidates, warnings);
+  if (questions.length === 0) {
+    throw new Error(`Quiz ${canvasQuiz.id} has no questions that fit nexgen-quiz.v1.`);
+  }
+  const groups = fitGroupsToV1(questions, (options.groups ?? []).map((group) => ({
+    key: String(group.id),
+    name: group.name,
+    pickCount: group.pick_count,
+    questionPoints: group.question_points
+  })), warnings);
+
+  const settings: NexgenQuizV1["settings"] = {
+    questionCount: questions.length,
+    choicesPerQuestion
+  };
+  if (canvasQuiz.shuffle_answers !== undefined) {
+    settings.shuffleAnswers = canvasQuiz.shuffle_answers;
+  }
+  if (typeof canvasQuiz.time_limit === "number") {
+    if (canvasQuiz.time_limit >= 0 && canvasQuiz.time_limit <= 180) {
+      settings.timeLimitMinutes = canvasQuiz.time_limit;
+    } else {
+      warnings.push(`Time limit of ${canvasQuiz.time_limit} minutes is outside 0-180 and was dropped.`);
+    }
+  }
+  if (typeof canvasQuiz.allowed_attempts === "number") {
+    if (canvasQuiz.allowed_attempts >= 1 && canvasQuiz.allowed_attempts <= 10) {
+      settings.allowedAttempts = canvasQuiz.allowed_attempts;
+    } else {
+      warnings.push(
+        `Allowed attempts of ${canvasQuiz.allowed_attempts} (-1 means unlimited) is outside 1-10 and was dropped.`
+      );
+    }
+  }
+
+  if (typeof canvasQuiz.show_correct_answers === "boolean") {
+    settings.showCorrectAnswers = canvasQuiz.show_correct_answers;
+  }
+  if (typeof canvasQuiz.one_question_at_a_time === "boolean") {
+    settings.oneQuestionAtATime = canvasQuiz.one_question_at_a_time;
+  }
+  if (canvasQuiz.access_code) settings.accessCode = canvasQuiz.access_code;
+  if (canvasQuiz.unlock_at) settings.unlockAt = canvasQuiz.unlock_at;
+  if (canvasQuiz.due_at) settings.dueAt = canvasQuiz.due_at;
+  if (canvasQuiz.lock_at) settings.lockAt = canvasQuiz.lock_at;
+  if (canvasQuiz.scoring_policy) settings.scoringPolicy = canvasQuiz.scoring_policy;
+  if (canvasQuiz.assignment_group_id) settings.assignmentGroupId = canvasQuiz.assignment_group_id;
+
+  const quiz: NexgenQuizV1 = {
+    schemaVersion: "nexgen-quiz.v1",
+    title: truncate(canvasQuiz.title.trim(), 120, "Title", warnings),
+    yearLevel: options.yearLevel,
+    settings,
+    questions,
+    ...(groups.length > 0 ? { groups } : {}),
+    source: {
+      generator: "canvas-export",
+      generatedAtUtc: new Date().toISOString()
+    }
+  };
+
+  const id = options.id ?? readQuizIdMarker(canvasQuiz.description);
+  if (id) quiz.id = id;
+
+  const description = toPlainText(canvasQuiz.description ?? "").replace(QUIZ_ID_MARKER_TEXT_RE, "").trim();
+  if (description) {
+    quiz.description = truncate(description, 1000, "Description", warnings);
+  }
+
+  return { quiz, warnings };
+}
+
+export type V1QuestionCandidate = {
+  /** Name in the source system, used in warnings. */
+  name: string;
+  /** `group` holds an `ImportedQuestionGroup` key until `fitGroupsToV1` rewrites it. */
+  question: Omit<ExportedQuestion, "id">;
+};
+
+/** A question group as the source system describes it; `key` ties questions to it. */
+export type ImportedQuestionGroup = {
+  key: string;
+  name: string;
+  pickCount: number;
+  questionPoints: number;
+};
+
+function groupSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+}
+
+/**
+ * Turns source groups into `groups` entries for the questions that survived `fitQuestionsToV1`:
+ * keys become slug ids, groups left without questions are dropped, and a `pickCount` above the
+ * remaining question count is lowered. Rewrites each question's `group` in place.
+ */
+export function fitGroupsToV1(
+  questions: ExportedQuestion[],
+  sources: ImportedQuestionGroup[],
+  warnings: string[]
+): NexgenQuestionGroup[] {
+  const groups: NexgenQuestionGroup[] = [];
+  const idsByKey = new Map<string, string>();
+  for (const source of sources) {
+    const members = questions.filter((question) => question.group === source.key).length;
+    if (members === 0) {
+      warnings.push(`Question group "${source.name}" skipped: none of its questions were kept.`);
+      continue;
+    }
+    const slug = groupSlug(source.name) || `group-${groups.length + 1}`;
+    let id = slug;
+    for (let n = 2; groups.some((group) => group.id === id); n += 1) id = `${slug.slice(0, 36)}-${n}`;
+    idsByKey.set(source.key, id);
+
+    let pickCount = source.pickCount;
+    if (pickCount > members) {
+      warnings.push(`Question group "${source.name}" picks ${pickCount} but only ${members} of its questions were kept; it now picks ${members}.`);
+      pickCount = members;
+    }
+    groups.push({
+      id,
+      ...(source.name !== id ? { name: source.name.slice(0, 255) } : {}),
+      pickCount,
+      questionPoints: source.questionPoints
+    });
+  }
+
+  for (const question of questions) {
+    if (question.group === undefined) continue;
+    const id = idsByKey.get(question.group);
+    if (id) question.group = id;
+    else delete question.group;
+  }
+  return groups;
+}
+
+/**
+ * Shapes imported multiple choice questions into a valid v1 question list: v1 requires one choice
+ * count for the whole quiz, so the most common count is kept, the rest are skipped with a
+ * warning, and ids are renumbered Q1..Qn.
+ */
+export function fitQuestionsToV1(
+  candidates: V1QuestionCandidate[],
+  warnings: string[]
+): { questions: ExportedQuestion[]; choicesPerQuestion: number } {
+  const counts = new Map<number, number>();
+  for (const { question } of candidates) {
+    counts.set(question.choices.length, (counts.get(question.choices.length) ?? 0) + 1);
+  }
+  const choicesPerQuestion = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]?.[0];
+  if (choicesPerQuestion === undefined) {
+    return { questions: [], choicesPerQuestion: 0 };
+  }
+
+  const kept = candidates.filter(({ name, question }) => {
+    if (question.choices.length === choicesPerQuestion) return true;
+    warnings.push(
+      `Question "${name}" skipped: it has ${question.choices.length} choices but the quiz uses ${choicesPerQuestion}.`
+    );
+    return false;
+  });
+  if (kept.length > QUIZ_LIMITS.maxQuestions) {
+    warnings.push(`Only the first ${QUIZ_LIMITS.maxQuestions} of ${kept.length} questions were kept.`);
+    kept.length = QUIZ_LIMITS.maxQuestions;
+  }
+
+  const questions = kept.map(({ name, question }, idx): ExportedQuestion => {
+    const id = `Q${idx + 1}`;
+    if (name.trim() !== id) {
+      warnings.push(`Question "${name}" renumbered as ${id}.`);
+    }
+    return { id, ...question };
+  });
+
+  return { questions, choicesPerQuestion };
+}
+
+function mapQuestionRecord(
+  record: CanvasQuizQuestionRecord,
+  label: string,
+  warnings: string[]
+): Omit<ExportedQuestion, "id"> | undefined {
+  if (record.question_type !== "multiple_choice_question" && record.question_type !== "true_false_question") {
+    warnings.push(`${label} skipped: ${record.question_type} is not supported by nexgen-quiz.v1 (multiple choice only).`);
+    return undefined;
+  }
+
+  const prompt = toPlainText(record.question_text ?? "");
+  if (/<img\b/i.test(record.question_text ?? "")) {
+    warnings.push(`${label}: images in the question text were not exported; add them back as "images".`);
+  }
+  if (prompt.length < 5) {
+    warnings.push(`${label} skipped: prompt is shorter than 5 characters.`);
+    return undefined;
+  }
+
+  const answers = (record.answers ?? []).map((answer) => ({
+    text: toPlainText(answer.html || answer.text || ""),
+    correct: (answer.weight ?? 0) > 0,
+    feedback: toPlainText(answer.comments_html || answer.comments || "")
+  }));
+  if (answers.some((answer) => answer.text.length === 0)) {
+    warnings.push(`${label} skipped: one or more answers are empty.`);
+    return undefined;
+  }
+  if (answers.length < QUIZ_LIMITS.minChoices || answers.length > QUIZ_LIMITS.maxChoices) {
+    warnings.push(
+      `${label} skipped: has ${answers.length} answers; v1 allows ${QUIZ_LIMITS.minChoices}-${QUIZ_LIMITS.maxChoices}.`
+    );
+    return undefined;
+  }
+  const correct = answers.flatMap((answer, idx) => (answer.correct ? [idx] : []));
+  if (correct.length !== 1) {
+    warnings.push(`${label} skipped: needs exactly one correct answer, found ${correct.length}.`);
+    return undefined;
+  }
+
+  const question: Omit<ExportedQuestion, "id"> = {
+    type: "multiple_choice",
+    prompt: truncate(prompt, 500, `${label} prompt`, warnings),
+    choices: answers.map((answer, idx) => truncate(answer.text, 200, `${label} answer ${idx + 1}`, warnings)),
+    correctIndex: correct[0]
+  };
+  if (record.quiz_group_id) {
+    question.group = String(record.quiz_group_id);
+  } else if (record.points_possible > 0 && record.points_possible <= 100 && record.points_possible !== 1) {
+    question.points = record.points_possible;
+  }
+
+  const explanation = toPlainText(record.neutral_comments_html || record.neutral_comments || record.correct_comments || "");
+  if (explanation) {
+    question.explanation = truncate(explanation, 600, `${label} feedback`, warnings);
+  }
+  if (answers.some((answer) => answer.feedback)) {
+    question.choiceFeedback = answers.map((answer, idx) =>
+      truncate(answer.feedback, 600, `${label} answer ${idx + 1} feedback`, warnings)
+    );
+  }
+
+  return question;
+}
+
+export function defaultExportFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "quiz"}.quiz.json`;
+}
@@ -0,0 +1,153 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { CanvasClient } from "../canvas/canvasClient.js";
+import { escapeHtml } from "../util/html.js";
+import type { NexgenQuestionV2, NexgenQuiz, QuizImage } from "./types.js";
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp"
+};
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export type LocalQuizImage = {
+  /** As written in the quiz; the key for `imageUrls`. */
+  src: string;
+  filePath: string;
+  contentType: string;
+  bytes: Uint8Array;
+  /** SHA-256 of the file contents, hex. */
+  hash: string;
+  /** File name in Canvas. The hash in it is what re-runs look for. */
+  uploadName: string;
+};
+
+export type QuizImageProblem = {
+  /** JSON pointer into the quiz. */
+  path: string;
+  message: string;
+};
+
+export type QuizImageUploadResult = {
+  /** Content hash -> URL to use in question HTML. */
+  urlsByHash: Map<string, string>;
+  uploaded: number;
+  reused: number;
+};
+
+function questionImages(quiz: NexgenQuiz): Array<{ image: QuizImage; pointer: string; questionId: string }> {
+  const questions: NexgenQuestionV2[] = quiz.questions;
+  return questions.flatMap((question, qIdx) =>
+    (question.images ?? []).map((image, iIdx) => ({
+      image,
+      pointer: `/questions/${qIdx}/images/${iIdx}/src`,
+      questionId: question.id
+    }))
+  );
+}
+
+/** Files that are missing, unreadable or too large, for `validate`. */
+export async function findQuizImageProblems(quiz: NexgenQuiz, baseDir: string): Promise<QuizImageProblem[]> {
+  const problems: QuizImageProblem[] = [];
+  for (const { image, pointer, questionId } of questionImages(quiz)) {
+    const filePath = path.resolve(baseDir, image.src);
+    try {
+      const stat = await fs.stat(filePath);
+      if (!stat.isFile()) {
+        problems.push({ path: pointer, message: `${questionId}: image "${image.src}" is not a file.` });
+      } else if (stat.size > MAX_IMAGE_BYTES) {
+        problems.push({
+          path: pointer,
+          message: `${questionId}: image "${image.src}" is ${(stat.size / 1024 / 1024).toFixed(1)} MB; the limit is ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`
+        });
+      }
+    } catch {
+      problems.push({ path: pointer, message: `${questionId}: image "${image.src}" not found (looked for ${filePath}).` });
+    }
+  }
+  return problems;
+}
+
+/** Reads every distinct image a quiz references, relative to `baseDir` (the quiz file's folder). */
+export async function readQuizImages(quiz: NexgenQuiz, baseDir: string): Promise<LocalQuizImage[]> {
+  const problems = await findQuizImageProblems(quiz, baseDir);
+  if (problems.length > 0) {
+    throw new Error(`Quiz images are not usable:\n- ${problems.map((problem) => problem.message).join("\n- ")}`);
+  }
+
+  const images = new Map<string, LocalQuizImage>();
+  for (const { image } of questionImages(quiz)) {
+    if (images.has(image.src)) continue;
+    const filePath = path.resolve(baseDir, image.src);
+    const bytes = await fs.readFile(filePath);
+    const hash = createHash("sha256").update(bytes).digest("hex");
+    const ext = path.extname(filePath).toLowerCase();
+    const stem = path.basename(filePath, path.extname(filePath)).replace(/[^A-Za-z0-9_-]+/g, "-").slice(0, 60) || "image";
+    images.set(image.src, {
+      src: image.src,
+      filePath,
+      contentType: IMAGE_CONTENT_TYPES[ext],
+      bytes,
+      hash,
+      uploadName: `${stem}-${hash.slice(0, 16)}${ext}`
+    });
+  }
+  return [...images.values()];
+}
+
+/**
+ * Uploads images into a course folder, skipping any whose content is already in the course:
+ * upload names carry a content hash, so a file with the same name is the same image.
+ * Images from several quizzes can go in one call; each distinct file is uploaded once.
+ */
+export async function uploadQuizImages(
+  client: CanvasClient,
+  courseId: number,
+  images: LocalQuizImage[],
+  folderPath: string
+): Promise<QuizImageUploadResult> {
+  const result: QuizImageUploadResult = { urlsByHash: new Map(), uploaded: 0, reused: 0 };
+  for (const image of images) {
+    if (result.urlsByHash.has(image.hash)) continue;
+    const existing = (await client.listCourseFiles(courseId, image.hash.slice(0, 16)))
+      .find((file) => file.display_name === image.uploadName);
+    const file = existing ?? await client.uploadCourseFile(courseId, {
+      name: image.uploadName,
+      contentType: image.contentType,
+      bytes: image.bytes,
+      folderPath
+    });
+    if (existing) result.reused += 1;
+    else result.uploaded += 1;
+    // Course-relative links survive course copies; Canvas rewrites them for the new course.
+    result.urlsByHash.set(image.hash, `/courses/${courseId}/files/${file.id}/preview`);
+  }
+  return result;
+}
+
+/** The `imageUrls` map for `mapToCanvasQuiz`: one quiz's image `src`s -> uploaded URLs. */
+export function quizImageUrls(images: LocalQuizImage[], urlsByHash: Map<string, string>): Map<string, string> {
+  const urls = new Map<string, string>();
+  for (const image of images) {
+    const url = urlsByHash.get(image.hash);
+    if (url) urls.set(image.src, url);
+  }
+  return urls;
+}
+
+export function renderQuizImages(images: QuizImage[], imageUrls: Map<string, string>, questionId: string): string {
+  return images
+    .map((image) => {
+      const url = imageUrls.get(image.src);
+      if (!url) throw new Error(`${questionId}: image "${image.src}" has not been uploaded.`);
+      const width = image.width ? ` width="${image.width}"` : "";
+      return `<p><img src="${escapeHtml(url)}" alt="${escapeHtml(image.alt)}"${width}></p>`;
+    })
+    .join("");
+}
@@ -0,0 +1,116 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseQuizMarkdown } from "./markdown/quizMarkdown.js";
+import { parseQtiPackage } from "./qti/qtiImport.js";
+
+const MARKDOWN_FILE_RE = /\.(md|markdown|txt)$/i;
+
+export type LoadedQuizFile = {
+  raw: unknown;
+  /** Non-fatal notes from format conversion (e.g. skipped QTI items). */
+  warnings: string[];
+};
+
+/**
+ * Reads a quiz source file into unvalidated JSON-like data for `validateNexgenQuiz`.
+ * The format is chosen by extension: `.zip` is a QTI 1.2 package, `.md`/`.markdown`/`.txt` is the
+ * Markdown authoring format, anything else is JSON.
+ */
+export async function loadQuizFile(filePath: string): Promise<LoadedQuizFile> {
+  if (/\.zip$/i.test(filePath)) {
+    const bytes = await fs.readFile(filePath);
+    const { quiz, warnings } = parseQtiPackage(new Uint8Array(bytes));
+    return { raw: quiz, warnings };
+  }
+
+  const txt = await fs.readFile(filePath, "utf8");
+  if (MARKDOWN_FILE_RE.test(filePath)) {
+    const { quiz, warnings } = parseQuizMarkdown(txt, { sourceName: filePath });
+    return { raw: quiz, warnings };
+  }
+
+  try {
+    return { raw: JSON.parse(txt), warnings: [] };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`${filePath} is not valid JSON: ${message}`);
+  }
+}
+
+// Folders only pick up `.quiz.json` and `.quiz.md` so results files, package.json, READMEs and notes
+// sitting next to quizzes are left alone.
+const QUIZ_FILE_RE = /(\.quiz\.json|\.zip|\.quiz\.md)$/i;
+const GLOB_CHARS_RE = /[*?]/;
+
+function globToRegExp(pattern: string): RegExp {
+  let out = "";
+  for (let i = 0; i < pattern.length; i += 1) {
+    const ch = pattern[i];
+    if (ch === "*" && pattern[i + 1] === "*") {
+      // "**/" matches zero or more whole directories.
+      const slash = pattern[i + 2] === "/";
+      out += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (ch === "*") {
+      out += "[^/]*";
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else {
+      out += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${out}$`);
+}
+
+async function walkFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name === "node_modules" || entry.name.startsWith(".")) continue;
+      files.push(...(await walkFiles(full)));
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+/**
+ * Expands folders (every quiz file directly inside) and glob patterns (`*`, `?`, `**`) into a
+ * sorted, de-duplicated list of files. Plain file paths are passed through unchanged.
+ */
+export async function expandQuizInputs(inputs: string[]): Promise<string[]> {
+  const found = new Set<string>();
+
+  for (const input of inputs) {
+    const normalized = input.replace(/\\/g, "/");
+    if (!GLOB_CHARS_RE.test(normalized)) {
+      const stat = await fs.stat(normalized).catch(() => undefined);
+      if (!stat) throw new Error(`No such file or folder: ${input}`);
+      if (stat.isDirectory()) {
+        const entries = await fs.readdir(normalized, { withFileTypes: true });
+        for (const entry of entries) {
+          if (entry.isFile() && QUIZ_FILE_RE.test(entry.name)) {
+            found.add(path.join(normalized, entry.name));
+          }
+        }
+      } else {
+        found.add(path.normalize(normalized));
+      }
+      continue;
+    }
+
+    const segments = normalized.split("/");
+    const firstGlob = segments.findIndex((segment) => GLOB_CHARS_RE.test(segment));
+    const base = segments.slice(0, firstGlob).join("/") || ".";
+    const matcher = globToRegExp(path.posix.normalize(normalized));
+    const matches = (await walkFiles(base).catch(() => [] as string[]))
+      .filter((file) => matcher.test(path.posix.normalize(file.replace(/\\/g, "/"))));
+    if (matches.length === 0) throw new Error(`No files matched: ${input}`);
+    for (const file of matches) found.add(file);
+  }
+
+  return [...found].sort();
+}
@@ -1,45 +1,237 @@
-import type { NexgenQuizV1 } from "./types.js";
+import type { CanvasQuizGroupSettings, CanvasQuizSettings } from "../canvas/canvasClient.js";
+import { renderQuizImages } from "./quizImages.js";
+import { mergeQuizOptions, pickQuizOptions, toCanvasQuizSettings } from "./quizSettings.js";
+import { renderQuizText } from "./quizText.js";
+import type { NexgenQuestionV2, NexgenQuiz, NexgenQuizOptions, QuizPointsByDifficulty, QuizTextFormat } from "./types.js";
 
-export function mapToCanvasQuiz(quiz: NexgenQuizV1): {
-  canvasQuiz: {
+export type CanvasQuestionType =
+  | "multiple_choice_question"
+  | "true_false_question"
+  | "multiple_answers_question"
+  | "short_answer_question"
+  | "numerical_question"
+  | "matching_question"
+  | "essay_question";
+
+export type CanvasQuizAnswer = {
+  answer_text?: string;
+  /** Used instead of `answer_text` for markdown and html choices. */
+  answer_html?: string;
+  answer_weight: number;
+  numerical_answer_type?: "exact_answer";
+  answer_exact?: number;
+  answer_error_margin?: number;
+  answer_match_left?: string;
+  answer_match_right?: string;
+  answer_comments?: string;
+  answer_comment_html?: string;
+};
+
+export type CanvasQuizQuestion = {
+  question_name: string;
+  question_text: string;
+  question_type: CanvasQuestionType;
+  points_possible: number;
+  answers: CanvasQuizAnswer[];
+  matching_answer_incorrect_matches?: string;
+  correct_comments?: string;
+  incorrect_comments?: string;
+  neutral_comments?: string;
+  neutral_comments_html?: string;
+  /** Set at upload time, once the quiz's groups exist in Canvas; null moves a question out of its group. */
+  quiz_group_id?: number | null;
+};
+
+export type MappedQuizGroup = {
+  /** The group's `id` in the quiz JSON. */
+  key: string;
+  settings: CanvasQuizGroupSettings;
+  /** `question_name`s of the group's questions. */
+  questionNames: string[];
+};
+
+export type CanvasQuizMapOptions = {
+  /** Fills quiz options the JSON leaves unset (per-course config); the JSON always wins. */
+  defaults?: NexgenQuizOptions;
+  /** Points for questions without `points`; questions without either are worth 1. */
+  pointsByDifficulty?: QuizPointsByDifficulty;
+  /** Image `src` -> uploaded URL; required when questions have `images`. */
+  imageUrls?: Map<string, string>;
+};
+
+const QUIZ_ID_MARKER_PREFIX = "nexgen-quiz-id:";
+
+/**
+ * Canvas has no field for external ids, so the stable quiz id rides along in the description
+ * as a hidden paragraph. Matching uses the marker text, which survives attribute sanitizing.
+ */
+export function buildQuizIdMarker(quizId: string): string {
+  return `<p data-nexgen-quiz-id="${quizId}" style="display: none;">${QUIZ_ID_MARKER_PREFIX} ${quizId}</p>`;
+}
+
+export function readQuizIdMarker(description: string | null | undefined): string | undefined {
+  const match = description?.match(/nexgen-quiz-id:\s*([a-z0-9][a-z0-9-]*)/);
+  return match?.[1];
+}
+
+export function mapToCanvasQuiz(quiz: NexgenQuiz, mapOptions: CanvasQuizMapOptions = {}): {
+  canvasQuiz: CanvasQuizSettings & {
     title: string;
     description?: string;
     published: boolean;
-    time_limit?: number;
-    allowed_attempts?: number;
   };
-  canvasQuestions: Array<{
-    question_name: string;
-    question_text: string;
-    question_type: "multiple_choice_question";
-    points_possible: number;
-    answers: Array<{ answer_text: string; answer_weight: number }>;
-  }>;
+  canvasQuestions: CanvasQuizQuestion[];
+  canvasGroups: MappedQuizGroup[];
 } {
+  const description = quiz.id
+    ? [quiz.description, buildQuizIdMarker(quiz.id)].filter(Boolean).join("\n")
+    : quiz.description;
+  const options = mergeQuizOptions(mapOptions.defaults, pickQuizOptions(quiz.settings));
   const canvasQuiz = {
     title: quiz.title,
-    description: quiz.description,
+    description,
     published: false,
-    time_limit: quiz.settings.timeLimitMinutes ?? undefined,
-    allowed_attempts: quiz.settings.allowedAttempts ?? 1
+    ...toCanvasQuizSettings(options),
+    allowed_attempts: options.allowedAttempts ?? 1
   };
 
-  const canvasQuestions = quiz.questions.map((q) => {
-    const answers = q.choices.map((text, idx) => {
-      return {
-        answer_text: text,
-        answer_weight: idx === q.correctIndex ? 100 : 0
-      };
-    });
-
+  // v1 questions are a subset of the v2 multiple_choice shape.
+  const questions: NexgenQuestionV2[] = quiz.questions;
+  const groups = new Map((quiz.groups ?? []).map((group) => [group.id, group]));
+  const canvasQuestions = questions.map((q): CanvasQuizQuestion => {
+    // Canvas scores a grouped question with the group's points, so report those.
+    const group = q.group ? groups.get(q.group) : undefined;
+    const format = q.textFormat ?? quiz.textFormat ?? "plain";
+    const prompt = renderQuizText(q.prompt, format);
     return {
       question_name: q.id,
-      question_text: q.prompt,
-      question_type: "multiple_choice_question" as const,
-      points_possible: 1,
-      answers
+      question_text: q.images?.length
+        ? `${prompt}${renderQuizImages(q.images, mapOptions.imageUrls ?? new Map(), q.id)}`
+        : prompt,
+      points_possible: group?.questionPoints ?? questionPoints(q, mapOptions.pointsByDifficulty),
+      ...explanationComments(q.explanation, format),
+      ...mapQuestionBody(q, format)
     };
   });
 
-  return { canvasQuiz, canvasQuestions };
+  const canvasGroups = (quiz.groups ?? []).map((group): MappedQuizGroup => ({
+    key: group.id,
+    settings: {
+      name: group.name ?? group.id,
+      pick_count: group.pickCount,
+      question_points: group.questionPoints
+    },
+    questionNames: questions.filter((q) => q.group === group.id).map((q) => q.id)
+  }));
+
+  return { canvasQuiz, canvasQuestions, canvasGroups };
+}
+
+/** Points a student can score: ungrouped questions plus `pick_count` x `question_points` per group. */
+export function totalQuizPoints(mapped: Pick<MappedCanvasQuiz, "canvasQuestions" | "canvasGroups">): number {
+  const grouped = new Set(mapped.canvasGroups.flatMap((group) => group.questionNames));
+  const ungrouped = mapped.canvasQuestions
+    .filter((q) => !grouped.has(q.question_name))
+    .reduce((sum, q) => sum + q.points_possible, 0);
+  return mapped.canvasGroups.reduce((sum, group) => sum + group.settings.pick_count * group.settings.question_points, ungrouped);
+}
+
+export function questionPoints(
+  question: Pick<NexgenQuestionV2, "points" | "difficulty">,
+  pointsByDifficulty?: QuizPointsByDifficulty
+): number {
+  return question.points ?? (question.difficulty ? pointsByDifficulty?.[question.difficulty] : undefined) ?? 1;
+}
+
+/**
+ * Shown to every student after submitting. Both fields are always sent, one of them empty, so
+ * removing an explanation or changing its format clears the old text in Canvas on the next upload.
+ */
+function explanationComments(
+  explanation: string | undefined,
+  format: QuizTextFormat
+): Pick<CanvasQuizQuestion, "neutral_comments" | "neutral_comments_html"> {
+  if (format === "plain" || !explanation) return { neutral_comments: explanation ?? "", neutral_comments_html: "" };
+  return { neutral_comments: "", neutral_comments_html: renderQuizText(explanation, format) };
 }
+
+function choiceText(text: string, format: QuizTextFormat): Pick<CanvasQuizAnswer, "answer_text" | "answer_html"> {
+  // Canvas escapes answer_text itself.
+  return format === "plain" ? { answer_text: text } : { answer_html: renderQuizText(text, format, true) };
+}
+
+function choiceComments(
+  feedback: string[] | undefined,
+  idx: number,
+  format: QuizTextFormat
+): Pick<CanvasQuizAnswer, "answer_comments" | "answer_comment_html"> {
+  const text = feedback?.[idx]?.trim();
+  if (!text) return {};
+  return format === "plain" ? { answer_comments: text } : { answer_comment_html: renderQuizText(text, format, true) };
+}
+
+/** Short answer, numerical and matching answers are compared or shown as plain text, so they stay plain. */
+function mapQuestionBody(
+  q: NexgenQuestionV2,
+  format: QuizTextFormat
+): Pick<CanvasQuizQuestion, "question_type" | "answers" | "matching_answer_incorrect_matches"> {
+  switch (q.type) {
+    case "multiple_choice":
+      return {
+        question_type: "multiple_choice_question",
+        answers: q.choices.map((text, idx) => ({
+          ...choiceText(text, format),
+          answer_weight: idx === q.correctIndex ? 100 : 0,
+          ...choiceComments(q.choiceFeedback, idx, format)
+        }))
+      };
+    case "true_false":
+      return {
+        question_type: "true_false_question",
+        answers: [
+          { answer_text: "True", answer_weight: q.correctAnswer ? 100 : 0 },
+          { answer_text: "False", answer_weight: q.correctAnswer ? 0 : 100 }
+        ]
+      };
+    case "multiple_answers":
+      return {
+        question_type: "multiple_answers_question",
+        answers: q.choices.map((text, idx) => ({
+          ...choiceText(text, format),
+          answer_weight: q.correctIndices.includes(idx) ? 100 : 0,
+          ...choiceComments(q.choiceFeedback, idx, format)
+        }))
+      };
+    case "short_answer":
+      return {
+        question_type: "short_answer_question",
+        answers: q.acceptedAnswers.map((text) => ({ answer_text: text, answer_weight: 100 }))
+      };
+    case "numerical":
+      return {
+        question_type: "numerical_question",
+        answers: [
+          {
+            numerical_answer_type: "exact_answer",
+            answer_exact: q.answer,
+            answer_error_margin: q.tolerance ?? 0,
+            answer_weight: 100
+          }
+        ]
+      };
+    case "matching":
+      return {
+        question_type: "matching_question",
+        answers: q.pairs.map((pair) => ({
+          answer_match_left: pair.left,
+          answer_match_right: pair.right,
+          answer_weight: 100
+        })),
+        matching_answer_incorrect_matches: q.distractors?.length ? q.distractors.join("\n") : undefined
+      };
+    case "essay":
+      return { question_type: "essay_question", answers: [] };
+  }
+}
+
+export type MappedCanvasQuiz = ReturnType<typeof mapToCanvasQuiz>;
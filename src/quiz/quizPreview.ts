@@ -0,0 +1,245 @@
+import { escapeHtml } from "../util/html.js";
+import { totalQuizPoints, type CanvasQuizAnswer, type CanvasQuizQuestion, type MappedCanvasQuiz } from "./quizMapper.js";
+import type { NexgenQuestionV2, NexgenQuiz } from "./types.js";
+
+export type QuizPreviewOptions = {
+  /** Append the mapped Canvas payload as JSON (terminal preview only). */
+  payload?: boolean;
+};
+
+export type QuizHtmlPreviewOptions = {
+  /**
+   * Canvas origin for equation images, which Canvas renders at `/equation_images/...`;
+   * without it they show their LaTeX alt text.
+   */
+  canvasBaseUrl?: string;
+};
+
+/** Canvas quiz fields that are not settings, left out of the settings summary. */
+const NON_SETTING_KEYS = new Set(["title", "description", "published"]);
+
+function formatPoints(points: number): string {
+  return `${points} ${points === 1 ? "pt" : "pts"}`;
+}
+
+function indent(text: string, prefix: string): string {
+  return text.split("\n").map((line) => `${prefix}${line}`.trimEnd()).join("\n");
+}
+
+function settingsSummary(mapped: MappedCanvasQuiz): string {
+  return Object.entries(mapped.canvasQuiz)
+    .filter(([key, value]) => !NON_SETTING_KEYS.has(key) && value !== undefined && value !== null)
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join(", ");
+}
+
+function questionHeading(quiz: NexgenQuiz, question: NexgenQuestionV2, canvas: CanvasQuizQuestion): string {
+  const format = question.textFormat ?? quiz.textFormat ?? "plain";
+  const details = [
+    question.type,
+    formatPoints(canvas.points_possible),
+    question.difficulty,
+    question.group ? `group ${question.group}` : undefined,
+    format === "plain" ? undefined : format
+  ].filter(Boolean);
+  return `${question.id} (${details.join(", ")})`;
+}
+
+/** The answer part of a question, as the author wrote it, with correct answers marked. */
+function answerLines(question: NexgenQuestionV2): string[] {
+  switch (question.type) {
+    case "multiple_choice":
+    case "multiple_answers": {
+      const correct = question.type === "multiple_choice" ? [question.correctIndex] : question.correctIndices;
+      const open = question.type === "multiple_choice" ? "(" : "[";
+      const close = question.type === "multiple_choice" ? ")" : "]";
+      return question.choices.flatMap((choice, idx) => {
+        const mark = correct.includes(idx) ? `${open}x${close}` : `${open} ${close}`;
+        const feedback = question.choiceFeedback?.[idx]?.trim();
+        return [`${mark} ${choice}`, ...(feedback ? [`    -> ${feedback}`] : [])];
+      });
+    }
+    case "true_false":
+      return [`(${question.correctAnswer ? "x" : " "}) True`, `(${question.correctAnswer ? " " : "x"}) False`];
+    case "short_answer":
+      return [`Accepted: ${question.acceptedAnswers.join(" | ")}`];
+    case "numerical":
+      return [`Answer: ${question.answer}${question.tolerance ? ` (+/- ${question.tolerance})` : ""}`];
+    case "matching":
+      return [
+        ...question.pairs.map((pair) => `${pair.left} => ${pair.right}`),
+        ...(question.distractors?.length ? [`Distractors: ${question.distractors.join(" | ")}`] : [])
+      ];
+    case "essay":
+      return ["(Essay, graded manually)"];
+  }
+}
+
+/** The whole quiz for proofreading in a terminal: source text as written, correct answers marked. */
+export function renderQuizPreviewText(
+  quiz: NexgenQuiz,
+  mapped: MappedCanvasQuiz,
+  options: QuizPreviewOptions = {}
+): string {
+  const lines: string[] = [];
+  lines.push(`# ${quiz.title}`);
+  if (quiz.description) lines.push(quiz.description);
+  lines.push(`Questions: ${quiz.questions.length}, points: ${totalQuizPoints(mapped)}`);
+  const settings = settingsSummary(mapped);
+  if (settings) lines.push(`Settings: ${settings}`);
+  for (const group of mapped.canvasGroups) {
+    const { name, pick_count: pick, question_points: points } = group.settings;
+    lines.push(`Group "${name}": ${pick} of ${group.questionNames.join(", ")}, ${formatPoints(points)} each`);
+  }
+
+  const questions: NexgenQuestionV2[] = quiz.questions;
+  questions.forEach((question, idx) => {
+    const canvas = mapped.canvasQuestions[idx];
+    lines.push("");
+    lines.push(`## ${questionHeading(quiz, question, canvas)}`);
+    lines.push(indent(question.prompt, "  "));
+    for (const image of question.images ?? []) {
+      lines.push(`  [image: ${image.alt} (${image.src})]`);
+    }
+    lines.push("");
+    lines.push(...answerLines(question).map((line) => indent(line, "  ")));
+    if (question.explanation) {
+      lines.push("");
+      lines.push(indent(`Explanation: ${question.explanation}`, "  "));
+    }
+  });
+
+  if (options.payload) {
+    lines.push("");
+    lines.push("## Canvas payload");
+    lines.push(JSON.stringify(mapped, null, 2));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function answerHtml(answer: CanvasQuizAnswer): string {
+  return answer.answer_html ?? escapeHtml(answer.answer_text ?? "");
+}
+
+function commentHtml(html: string | undefined, text: string | undefined): string {
+  const body = html || (text ? escapeHtml(text) : "");
+  return body ? `<div class="comment">${body}</div>` : "";
+}
+
+function renderAnswersHtml(question: CanvasQuizQuestion): string {
+  switch (question.question_type) {
+    case "multiple_choice_question":
+    case "true_false_question":
+    case "multiple_answers_question": {
+      const input = question.question_type === "multiple_answers_question" ? "checkbox" : "radio";
+      return `<ul class="answers">${question.answers.map((answer) => {
+        const correct = answer.answer_weight > 0;
+        return `<li class="answer${correct ? " correct" : ""}">`
+          + `<span class="mark ${input}"></span><div class="answer-text">${answerHtml(answer)}</div>`
+          + (correct ? `<span class="label">Correct answer</span>` : "")
+          + commentHtml(answer.answer_comment_html, answer.answer_comments)
+          + "</li>";
+      }).join("")}</ul>`;
+    }
+    case "short_answer_question":
+      return `<ul class="answers">${question.answers.map((answer) =>
+        `<li class="answer correct"><div class="answer-text">${answerHtml(answer)}</div><span class="label">Accepted</span></li>`
+      ).join("")}</ul>`;
+    case "numerical_question":
+      return `<ul class="answers">${question.answers.map((answer) =>
+        `<li class="answer correct"><div class="answer-text">${answer.answer_exact}`
+        + (answer.answer_error_margin ? ` (margin ${answer.answer_error_margin})` : "")
+        + `</div><span class="label">Correct answer</span></li>`
+      ).join("")}</ul>`;
+    case "matching_question": {
+      const rows = question.answers.map((answer) =>
+        `<tr><td>${escapeHtml(answer.answer_match_left ?? "")}</td><td>${escapeHtml(answer.answer_match_right ?? "")}</td></tr>`
+      );
+      const distractors = question.matching_answer_incorrect_matches
+        ? `<p class="muted">Distractors: ${escapeHtml(question.matching_answer_incorrect_matches.split("\n").join(", "))}</p>`
+        : "";
+      return `<table class="matching">${rows.join("")}</table>${distractors}`;
+    }
+    case "essay_question":
+      return `<div class="essay">Essay answer (graded manually)</div>`;
+  }
+}
+
+const PREVIEW_CSS = `
+body { font-family: "Lato", "Helvetica Neue", Arial, sans-serif; color: #2d3b45; background: #f5f5f5; margin: 0; }
+main { max-width: 820px; margin: 0 auto; padding: 24px; }
+h1 { font-weight: 400; font-size: 1.8rem; margin: 0 0 8px; }
+.meta, .muted { color: #6b7780; font-size: 0.875rem; }
+.description { margin: 12px 0 24px; }
+.question { background: #fff; border: 1px solid #c7cdd1; margin: 0 0 24px; }
+.header { display: flex; justify-content: space-between; background: #f5f5f5; border-bottom: 1px solid #c7cdd1; padding: 8px 12px; font-weight: 700; }
+.header .points { font-weight: 400; color: #6b7780; }
+.body { padding: 12px 16px 16px; }
+.text img { max-width: 100%; }
+.answers { list-style: none; padding: 0; margin: 16px 0 0; border-top: 1px solid #e6e6e6; }
+.answer { display: flex; flex-wrap: wrap; align-items: baseline; gap: 8px; padding: 8px 4px; border-bottom: 1px solid #e6e6e6; }
+.answer.correct { background: #ecf8ef; }
+.answer-text { flex: 1; }
+.answer-text p { margin: 0; }
+.mark { width: 12px; height: 12px; border: 1px solid #73818c; display: inline-block; }
+.mark.radio { border-radius: 50%; }
+.answer.correct .mark { background: #0b874b; border-color: #0b874b; }
+.label { color: #0b874b; font-size: 0.75rem; font-weight: 700; text-transform: uppercase; }
+.comment, .explanation { flex-basis: 100%; background: #f5f5f5; border-left: 3px solid #c7cdd1; padding: 6px 10px; font-size: 0.875rem; }
+.explanation { margin-top: 12px; }
+.matching { border-collapse: collapse; margin-top: 16px; }
+.matching td { border: 1px solid #c7cdd1; padding: 6px 10px; }
+.essay { margin-top: 16px; border: 1px solid #c7cdd1; min-height: 80px; padding: 8px; color: #6b7780; }
+pre { background: #f5f5f5; border: 1px solid #e6e6e6; padding: 8px; overflow-x: auto; }
+`;
+
+/**
+ * A standalone page laid out like a Canvas quiz with answers shown, built from the mapped payload
+ * so it shows exactly the HTML Canvas will get. Image URLs are whatever `mapToCanvasQuiz` was given.
+ */
+export function renderQuizPreviewHtml(
+  quiz: NexgenQuiz,
+  mapped: MappedCanvasQuiz,
+  options: QuizHtmlPreviewOptions = {}
+): string {
+  const fixUrls = (html: string): string =>
+    options.canvasBaseUrl
+      ? html.replace(/(src=")\/equation_images\//g, `$1${options.canvasBaseUrl.replace(/\/+$/, "")}/equation_images/`)
+      : html;
+  const groupNames = new Map(
+    mapped.canvasGroups.flatMap((group) => group.questionNames.map((name) => [name, group.settings.name] as const))
+  );
+
+  const questions = mapped.canvasQuestions.map((question, idx) => {
+    const group = groupNames.get(question.question_name);
+    const explanation = commentHtml(question.neutral_comments_html, question.neutral_comments);
+    return `<section class="question">`
+      + `<div class="header"><span>Question ${idx + 1} <span class="muted">${escapeHtml(question.question_name)}`
+      + `${group ? ` &middot; ${escapeHtml(group)}` : ""}</span></span>`
+      + `<span class="points">${formatPoints(question.points_possible)}</span></div>`
+      + `<div class="body"><div class="text">${question.question_text}</div>`
+      + renderAnswersHtml(question)
+      + (explanation ? explanation.replace('class="comment"', 'class="explanation"') : "")
+      + "</div></section>";
+  });
+
+  const settings = settingsSummary(mapped);
+  return [
+    "<!DOCTYPE html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "<meta charset=\"utf-8\">",
+    `<title>Preview: ${escapeHtml(quiz.title)}</title>`,
+    `<style>${PREVIEW_CSS}</style>`,
+    "</head>",
+    "<body><main>",
+    `<h1>${escapeHtml(quiz.title)}</h1>`,
+    `<div class="meta">${quiz.questions.length} questions &middot; ${formatPoints(totalQuizPoints(mapped))}`
+      + `${settings ? ` &middot; ${escapeHtml(settings)}` : ""}</div>`,
+    mapped.canvasQuiz.description ? `<div class="description">${mapped.canvasQuiz.description}</div>` : "",
+    fixUrls(questions.join("\n")),
+    "</main></body>",
+    "</html>",
+    ""
+  ].join("\n");
+}
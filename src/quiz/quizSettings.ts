@@ -0,0 +1,59 @@
+import type { CanvasQuizSettings } from "../canvas/canvasClient.js";
+import type { NexgenQuizOptions } from "./types.js";
+
+export type QuizOptionKind = "boolean" | "integer" | "string";
+
+/** Every quiz option with its value kind, for formats without JSON types (Markdown front matter). */
+export const QUIZ_OPTION_KINDS = {
+  shuffleAnswers: "boolean",
+  timeLimitMinutes: "integer",
+  allowedAttempts: "integer",
+  showCorrectAnswers: "boolean",
+  oneQuestionAtATime: "boolean",
+  accessCode: "string",
+  dueAt: "string",
+  unlockAt: "string",
+  lockAt: "string",
+  scoringPolicy: "string",
+  assignmentGroupId: "integer"
+} as const satisfies Record<keyof Required<NexgenQuizOptions>, QuizOptionKind>;
+
+/** The option keys of a quiz's `settings`, without the question/choice counts. */
+export function pickQuizOptions(settings: NexgenQuizOptions): NexgenQuizOptions {
+  const options: NexgenQuizOptions = {};
+  for (const key of Object.keys(QUIZ_OPTION_KINDS) as Array<keyof NexgenQuizOptions>) {
+    if (settings[key] !== undefined) (options as Record<string, unknown>)[key] = settings[key];
+  }
+  return options;
+}
+
+/**
+ * Layers quiz options: later sources win key by key, and unset keys fall through to earlier ones
+ * (e.g. per-course config defaults, then the quiz JSON).
+ */
+export function mergeQuizOptions(...layers: Array<NexgenQuizOptions | undefined>): NexgenQuizOptions {
+  const merged: NexgenQuizOptions = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer ?? {})) {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/** Unset clearable settings map to `null`, so re-uploading a quiz clears what the JSON no longer sets. */
+export function toCanvasQuizSettings(options: NexgenQuizOptions): CanvasQuizSettings {
+  return {
+    shuffle_answers: options.shuffleAnswers,
+    time_limit: options.timeLimitMinutes ?? null,
+    allowed_attempts: options.allowedAttempts,
+    show_correct_answers: options.showCorrectAnswers,
+    one_question_at_a_time: options.oneQuestionAtATime,
+    access_code: options.accessCode ?? null,
+    due_at: options.dueAt ?? null,
+    unlock_at: options.unlockAt ?? null,
+    lock_at: options.lockAt ?? null,
+    scoring_policy: options.scoringPolicy,
+    assignment_group_id: options.assignmentGroupId
+  };
+}
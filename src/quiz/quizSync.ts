@@ -0,0 +1,265 @@
+import type {
+  CanvasClient,
+  CanvasQuiz,
+  CanvasQuizAnswerRecord,
+  CanvasQuizGroup,
+  CanvasQuizQuestionRecord
+} from "../canvas/canvasClient.js";
+import {
+  readQuizIdMarker,
+  type CanvasQuizAnswer,
+  type CanvasQuizQuestion,
+  type MappedQuizGroup
+} from "./quizMapper.js";
+import type { NexgenQuiz } from "./types.js";
+
+export type QuestionSyncPlan = {
+  add: CanvasQuizQuestion[];
+  update: Array<{ existing: CanvasQuizQuestionRecord; question: CanvasQuizQuestion }>;
+  remove: CanvasQuizQuestionRecord[];
+  unchanged: CanvasQuizQuestionRecord[];
+};
+
+export type GroupSyncPlan = {
+  add: MappedQuizGroup[];
+  update: Array<{ existing: CanvasQuizGroup; group: MappedQuizGroup }>;
+  remove: CanvasQuizGroup[];
+  unchanged: Array<{ existing: CanvasQuizGroup; group: MappedQuizGroup }>;
+};
+
+const SPACE_RE = /\s+/g;
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function normalizeText(value: string | null | undefined): string {
+  return (value ?? "").replace(SPACE_RE, " ").trim();
+}
+
+/**
+ * Finds the Canvas quiz a Nexgen quiz was previously uploaded as. The stable `id` wins when
+ * present; otherwise (or if no quiz carries that id yet) an exact, unambiguous title match is used.
+ */
+export async function findExistingQuiz(
+  client: CanvasClient,
+  courseId: number,
+  quiz: NexgenQuiz
+): Promise<CanvasQuiz | undefined> {
+  const quizzes = await client.listQuizzes(courseId);
+
+  if (quiz.id) {
+    const byId = quizzes.filter((q) => readQuizIdMarker(q.description) === quiz.id);
+    if (byId.length > 1) {
+      const ids = byId.map((q) => q.id).join(", ");
+      throw new Error(`Multiple Canvas quizzes carry id "${quiz.id}" (${ids}). Delete the duplicates first.`);
+    }
+    if (byId.length === 1) return byId[0];
+  }
+
+  const target = normalizeName(quiz.title);
+  const byTitle = quizzes.filter((q) => {
+    if (normalizeName(q.title) !== target) return false;
+    // A quiz tagged with a different stable id belongs to another source file.
+    const markerId = readQuizIdMarker(q.description);
+    return !markerId || markerId === quiz.id;
+  });
+
+  if (byTitle.length > 1) {
+    const ids = byTitle.map((q) => q.id).join(", ");
+    throw new Error(
+      `Multiple Canvas quizzes are titled "${quiz.title}" (${ids}). Add a stable "id" to the quiz JSON or rename one.`
+    );
+  }
+  return byTitle[0];
+}
+
+function answerKey(answer: CanvasQuizAnswer): string {
+  return JSON.stringify([
+    normalizeText(answer.answer_html || answer.answer_text),
+    answer.answer_weight > 0 ? 100 : 0,
+    answer.answer_exact ?? null,
+    answer.answer_error_margin ?? null,
+    normalizeText(answer.answer_match_left),
+    normalizeText(answer.answer_match_right),
+    normalizeText(answer.answer_comment_html || answer.answer_comments)
+  ]);
+}
+
+function recordAnswerKey(answer: CanvasQuizAnswerRecord): string {
+  const isNumerical = answer.numerical_answer_type !== undefined;
+  return JSON.stringify([
+    isNumerical ? "" : normalizeText(answer.html || answer.text),
+    (answer.weight ?? 0) > 0 ? 100 : 0,
+    isNumerical ? answer.exact ?? null : null,
+    isNumerical ? answer.margin ?? 0 : null,
+    normalizeText(answer.left),
+    normalizeText(answer.right),
+    normalizeText(answer.comments_html || answer.comments)
+  ]);
+}
+
+function questionKey(question: CanvasQuizQuestion): string {
+  return JSON.stringify([
+    normalizeText(question.question_text),
+    question.question_type,
+    question.points_possible,
+    question.answers.map(answerKey),
+    normalizeText(question.matching_answer_incorrect_matches),
+    normalizeText(question.neutral_comments_html || question.neutral_comments),
+    question.quiz_group_id ?? null
+  ]);
+}
+
+function recordKey(record: CanvasQuizQuestionRecord): string {
+  return JSON.stringify([
+    normalizeText(record.question_text),
+    record.question_type,
+    record.points_possible,
+    (record.answers ?? []).map(recordAnswerKey),
+    normalizeText(record.matching_answer_incorrect_matches),
+    normalizeText(record.neutral_comments_html || record.neutral_comments),
+    record.quiz_group_id ?? null
+  ]);
+}
+
+/**
+ * Diffs mapped questions against what Canvas holds, pairing them by `question_name` (Q1, Q2, ...).
+ * Canvas questions with no counterpart, including duplicates of a name, are scheduled for removal.
+ */
+export function planQuestionSync(
+  existing: CanvasQuizQuestionRecord[],
+  desired: CanvasQuizQuestion[]
+): QuestionSyncPlan {
+  const byName = new Map<string, CanvasQuizQuestionRecord>();
+  const remove: CanvasQuizQuestionRecord[] = [];
+  for (const record of existing) {
+    const key = normalizeName(record.question_name);
+    if (byName.has(key)) {
+      remove.push(record);
+    } else {
+      byName.set(key, record);
+    }
+  }
+
+  const plan: QuestionSyncPlan = { add: [], update: [], remove, unchanged: [] };
+  for (const question of desired) {
+    const key = normalizeName(question.question_name);
+    const match = byName.get(key);
+    if (!match) {
+      plan.add.push(question);
+      continue;
+    }
+    byName.delete(key);
+    if (recordKey(match) === questionKey(question)) {
+      plan.unchanged.push(match);
+    } else {
+      plan.update.push({ existing: match, question });
+    }
+  }
+
+  plan.remove.push(...byName.values());
+  return plan;
+}
+
+/**
+ * Loads the groups the quiz's questions belong to. Canvas cannot list a quiz's groups, so groups
+ * with no questions left in them are not found (and not cleaned up).
+ */
+export async function listQuestionGroups(
+  client: CanvasClient,
+  courseId: number,
+  quizId: number,
+  questions: CanvasQuizQuestionRecord[]
+): Promise<CanvasQuizGroup[]> {
+  const ids = [...new Set(questions.flatMap((q) => (q.quiz_group_id ? [q.quiz_group_id] : [])))];
+  const groups: CanvasQuizGroup[] = [];
+  for (const id of ids) {
+    groups.push(await client.getQuizGroup(courseId, quizId, id));
+  }
+  return groups;
+}
+
+/** Diffs mapped groups against Canvas groups, pairing them by name. */
+export function planGroupSync(existing: CanvasQuizGroup[], desired: MappedQuizGroup[]): GroupSyncPlan {
+  const byName = new Map(existing.map((group) => [normalizeName(group.name), group]));
+  const plan: GroupSyncPlan = { add: [], update: [], remove: [], unchanged: [] };
+  for (const group of desired) {
+    const key = normalizeName(group.settings.name);
+    const match = byName.get(key);
+    if (!match) {
+      plan.add.push(group);
+      continue;
+    }
+    byName.delete(key);
+    const same = match.pick_count === group.settings.pick_count
+      && match.question_points === group.settings.question_points
+      && match.name === group.settings.name;
+    (same ? plan.unchanged : plan.update).push({ existing: match, group });
+  }
+  plan.remove.push(...byName.values());
+  return plan;
+}
+
+/** Points each mapped question at its Canvas group id, or at no group (null). */
+export function assignQuizGroupIds(
+  questions: CanvasQuizQuestion[],
+  groups: MappedQuizGroup[],
+  groupIds: Map<string, number>
+): CanvasQuizQuestion[] {
+  const byQuestion = new Map<string, number>();
+  for (const group of groups) {
+    const id = groupIds.get(group.key);
+    if (id === undefined) continue;
+    for (const name of group.questionNames) byQuestion.set(name, id);
+  }
+  return questions.map((question) => ({ ...question, quiz_group_id: byQuestion.get(question.question_name) ?? null }));
+}
+
+/**
+ * Converts a question read back from Canvas into the write shape, so a snapshot can be
+ * re-posted when an update has to be undone.
+ */
+export function recordToCanvasQuestion(record: CanvasQuizQuestionRecord): CanvasQuizQuestion {
+  const answers = (record.answers ?? []).map((answer): CanvasQuizAnswer => ({
+    ...recordToCanvasAnswer(answer),
+    ...(answer.comments_html
+      ? { answer_comment_html: answer.comments_html }
+      : answer.comments ? { answer_comments: answer.comments } : {})
+  }));
+
+  return {
+    question_name: record.question_name,
+    question_text: record.question_text,
+    question_type: record.question_type as CanvasQuizQuestion["question_type"],
+    points_possible: record.points_possible,
+    answers,
+    matching_answer_incorrect_matches: record.matching_answer_incorrect_matches ?? undefined,
+    correct_comments: record.correct_comments ?? undefined,
+    incorrect_comments: record.incorrect_comments ?? undefined,
+    neutral_comments: record.neutral_comments ?? "",
+    neutral_comments_html: record.neutral_comments_html ?? "",
+    quiz_group_id: record.quiz_group_id ?? null
+  };
+}
+
+function recordToCanvasAnswer(answer: CanvasQuizAnswerRecord): CanvasQuizAnswer {
+  if (answer.numerical_answer_type !== undefined) {
+    return {
+      numerical_answer_type: "exact_answer",
+      answer_exact: answer.exact,
+      answer_error_margin: answer.margin,
+      answer_weight: answer.weight ?? 0
+    };
+  }
+  if (answer.left !== undefined || answer.right !== undefined) {
+    return {
+      answer_match_left: answer.left,
+      answer_match_right: answer.right,
+      answer_weight: answer.weight ?? 0
+    };
+  }
+  return answer.html
+    ? { answer_html: answer.html, answer_weight: answer.weight ?? 0 }
+    : { answer_text: answer.text ?? "", answer_weight: answer.weight ?? 0 };
+}
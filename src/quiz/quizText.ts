@@ -0,0 +1,214 @@
+import { decodeHtmlEntities, escapeHtml } from "../util/html.js";
+import type { QuizTextFormat } from "./types.js";
+
+/**
+ * `$$...$$`, `\[...\]`, `\(...\)` and `$...$`. A single `$` only opens before a non-space and
+ * only closes after one, not followed by a digit, so prices like "$5 and $10" stay text.
+ */
+const MATH_RE = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|(?<![\\$\w])\$(?=\S)([^$\n]+?)(?<=\S)\$(?![\w$])/g;
+const FENCE_RE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const BULLET_RE = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_RE = /^\s*\d+[.)]\s+(.*)$/;
+const SAFE_URL_RE = /^(https?:|mailto:|\/|#)/i;
+/** Elements dropped with their content when sanitizing `html` text. */
+const BLOCKED_ELEMENT_RE = /<(script|style|iframe|object|embed|form|textarea|select|template|noscript)\b[\s\S]*?(<\/\1\s*>|$)/gi;
+/** A comment, doctype or processing instruction, or a tag with its (possibly quoted) attributes. */
+const MARKUP_RE = /<!--[\s\S]*?(?:-->|$)|<[!?][^>]*>?|<(\/?)([a-z][a-z0-9]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/gi;
+const ATTR_RE = /([^\s"'>\/=]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'=<>`]+))?/g;
+const ALLOWED_TAGS = new Set([
+  "a", "b", "blockquote", "br", "caption", "code", "div", "em", "h1", "h2", "h3", "h4", "h5", "h6", "hr", "i",
+  "img", "li", "ol", "p", "pre", "s", "span", "strong", "sub", "sup", "table", "tbody", "td", "tfoot", "th",
+  "thead", "tr", "u", "ul"
+]);
+const GLOBAL_ATTRS = new Set(["class", "title", "lang", "dir"]);
+const TAG_ATTRS: Record<string, Set<string>> = {
+  a: new Set(["href", "target", "rel"]),
+  img: new Set(["src", "alt", "width", "height", "data-equation-content"]),
+  ol: new Set(["start"]),
+  td: new Set(["colspan", "rowspan"]),
+  th: new Set(["colspan", "rowspan", "scope"])
+};
+const URL_ATTRS = new Set(["href", "src"]);
+const URL_SCHEME_RE = /^([a-z][a-z0-9+.-]*):/;
+
+/**
+ * A Canvas equation image, the markup the rich content editor produces: Canvas renders the
+ * image from the LaTeX in the URL and adds MathML for screen readers from `data-equation-content`.
+ */
+export function equationImage(latex: string): string {
+  const tex = latex.trim();
+  const attr = escapeHtml(tex);
+  // The editor encodes the LaTeX twice; Canvas decodes it once in routing and once in the handler.
+  const src = `/equation_images/${encodeURIComponent(encodeURIComponent(tex))}?scale=1`;
+  return `<img class="equation_image" title="${attr}" src="${src}" alt="LaTeX: ${attr}" data-equation-content="${attr}">`;
+}
+
+/**
+ * Question text as Canvas HTML. `inline` is for answer choices and choice feedback, which
+ * Canvas shows inside a line: markdown there gets no paragraphs, lists or code blocks.
+ */
+export function renderQuizText(text: string, format: QuizTextFormat, inline = false): string {
+  switch (format) {
+    case "plain":
+      return escapeHtml(text);
+    case "markdown":
+      return inline ? renderInline(text) : renderMarkdown(text);
+    case "html":
+      return sanitizeHtml(convertHtmlMath(text));
+  }
+}
+
+/**
+ * Keeps only known formatting tags and attributes, and links and images with http(s), mailto,
+ * relative or (for images) `data:image/` URLs. Scripts, styles and embeds go with their content;
+ * other tags are dropped and their text kept. Canvas sanitizes again on save; this keeps pasted
+ * markup from doing anything in exports and previews.
+ */
+export function sanitizeHtml(html: string): string {
+  let out = "";
+  let last = 0;
+  const source = html.replace(BLOCKED_ELEMENT_RE, "");
+  for (const match of source.matchAll(MARKUP_RE)) {
+    out += escapeStrayBrackets(source.slice(last, match.index));
+    last = match.index + match[0].length;
+    const [, closing, rawName, attrs] = match;
+    const name = rawName?.toLowerCase();
+    if (!name || !ALLOWED_TAGS.has(name)) continue;
+    out += closing ? `</${name}>` : `<${name}${sanitizeAttributes(name, attrs)}>`;
+  }
+  return out + escapeStrayBrackets(source.slice(last));
+}
+
+/** A `<` that did not start a tag is text. */
+function escapeStrayBrackets(text: string): string {
+  return text.replace(/</g, "&lt;");
+}
+
+function sanitizeAttributes(tag: string, attrs: string): string {
+  let out = "";
+  for (const [, rawName, rawValue] of attrs.matchAll(ATTR_RE)) {
+    const name = rawName.toLowerCase();
+    if (!GLOBAL_ATTRS.has(name) && !TAG_ATTRS[tag]?.has(name)) continue;
+    const value = rawValue?.replace(/^(["'])([\s\S]*)\1$/, "$2") ?? "";
+    if (URL_ATTRS.has(name) && !isSafeUrl(value, tag === "img")) continue;
+    out += ` ${name}="${value.replace(/"/g, "&quot;")}"`;
+  }
+  return out;
+}
+
+/**
+ * Checks the scheme the browser would see: entities decoded, whitespace and control characters
+ * removed. An entity left before the path (`&colon;`, `&#x61` without `;`) could hide a scheme, so it fails.
+ */
+function isSafeUrl(value: string, image: boolean): boolean {
+  const url = decodeHtmlEntities(value).replace(/[\u0000-\u0020\u007f-\u009f]/g, "").toLowerCase();
+  const head = url.split(/[/?#]/, 1)[0];
+  if (head.includes("&")) return false;
+  if (!head.includes(":")) return true;
+  const scheme = head.match(URL_SCHEME_RE)?.[1];
+  if (scheme === "http" || scheme === "https" || scheme === "mailto") return true;
+  return image && url.startsWith("data:image/");
+}
+
+/** Math in text between tags, leaving `<pre>` and `<code>` (and attribute values) alone. */
+function convertHtmlMath(html: string): string {
+  return html
+    .split(/(<pre\b[\s\S]*?<\/pre>|<code\b[\s\S]*?<\/code>|<[^>]*>)/i)
+    .map((part, idx) => (idx % 2 === 1 ? part : part.replace(MATH_RE, (...groups: string[]) =>
+      equationImage(decodeHtmlEntities(mathSource(groups)))
+    )))
+    .join("");
+}
+
+function mathSource(groups: string[]): string {
+  return groups[1] ?? groups[2] ?? groups[3] ?? groups[4];
+}
+
+/**
+ * A small CommonMark subset: paragraphs, `-`/`1.` lists, fenced code blocks, inline code,
+ * bold, italic, links and LaTeX. Single newlines in a paragraph are kept as line breaks
+ * (prompts are short and authors mean them). Everything else is escaped, so no raw HTML gets through.
+ */
+function renderMarkdown(text: string): string {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: "ul" | "ol"; items: string[] } | undefined;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push(`<p>${renderInline(paragraph.join("\n"))}</p>`);
+    if (list) blocks.push(`<${list.tag}>${list.items.map((item) => `<li>${renderInline(item)}</li>`).join("")}</${list.tag}>`);
+    paragraph = [];
+    list = undefined;
+  };
+
+  for (let idx = 0; idx < lines.length; idx += 1) {
+    const line = lines[idx];
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      flush();
+      const body: string[] = [];
+      idx += 1;
+      while (idx < lines.length && !(lines[idx].trim().startsWith(fence[1]) && lines[idx].trim().replace(/[`~]/g, "") === "")) {
+        body.push(lines[idx]);
+        idx += 1;
+      }
+      const lang = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : "";
+      blocks.push(`<pre><code${lang}>${escapeHtml(body.join("\n"))}</code></pre>`);
+      continue;
+    }
+    if (line.trim() === "") {
+      flush();
+      continue;
+    }
+    const bullet = line.match(BULLET_RE);
+    const numbered = bullet ? undefined : line.match(NUMBERED_RE);
+    if (bullet || numbered) {
+      const tag = bullet ? "ul" : "ol";
+      if (paragraph.length > 0 || (list && list.tag !== tag)) flush();
+      list ??= { tag, items: [] };
+      list.items.push((bullet ?? numbered)![1]);
+      continue;
+    }
+    if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += `\n${line.trim()}`;
+      continue;
+    }
+    if (list) flush();
+    paragraph.push(line);
+  }
+  flush();
+  return blocks.join("");
+}
+
+/**
+ * Inline markdown. Code spans, math, backslash escapes and then links are set aside so their
+ * contents are never read as emphasis; the rest is escaped before any markup is added.
+ */
+function renderInline(text: string): string {
+  const stash: string[] = [];
+  const hold = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+
+  let out = text
+    .replace(/\u0000/g, "")
+    .replace(/(`+)([\s\S]+?)\1(?!`)/g, (_match, _ticks: string, code: string) =>
+      hold(`<code>${escapeHtml(code.replace(/^ (.*) $/s, "$1"))}</code>`)
+    )
+    .replace(MATH_RE, (...groups: string[]) => hold(equationImage(mathSource(groups))))
+    .replace(/\\([\\`*_{}[\]()#+\-.!$<>])/g, (_match, char: string) => hold(escapeHtml(char)));
+
+  out = emphasis(
+    escapeHtml(out).replace(/\[([^\]\n]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) =>
+      SAFE_URL_RE.test(url) ? hold(`<a href="${url}">${emphasis(label)}</a>`) : match
+    )
+  ).replace(/\n/g, "<br>");
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_match, idx: string) => stash[Number(idx)]);
+}
+
+function emphasis(html: string): string {
+  return html
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "<strong>$2</strong>")
+    .replace(/(?<![\w*])\*(?=\S)([^*]*?\S)\*(?![\w*])/g, "<em>$1</em>")
+    .replace(/(?<![\w_])_(?=\S)([^_]*?\S)_(?![\w_])/g, "<em>$1</em>");
+}
@@ -0,0 +1,273 @@
+import type { CanvasClient, CanvasQuizQuestionRecord } from "../canvas/canvasClient.js";
+import type { MappedCanvasQuiz } from "./quizMapper.js";
+import {
+  assignQuizGroupIds,
+  findExistingQuiz,
+  listQuestionGroups,
+  planGroupSync,
+  planQuestionSync,
+  recordToCanvasQuestion
+} from "./quizSync.js";
+import type { NexgenQuiz } from "./types.js";
+
+export type QuizUploadResult = {
+  action: "created" | "updated";
+  quizId: number;
+  htmlUrl?: string;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+};
+
+export type QuizUploadOptions = {
+  /** Skip the existing-quiz lookup and always create a new quiz. */
+  forceNew?: boolean;
+};
+
+type UndoStep = {
+  description: string;
+  undo: () => Promise<unknown>;
+};
+
+export type RollbackStep = {
+  description: string;
+  ok: boolean;
+  error?: string;
+};
+
+/**
+ * Raised when an upload fails partway. Everything applied before the failure has already been
+ * undone (as far as possible) by the time this is thrown; `rollback` lists what was attempted.
+ */
+export class QuizUploadError extends Error {
+  readonly quizId?: number;
+  readonly rollback: RollbackStep[];
+
+  constructor(cause: unknown, quizId: number | undefined, rollback: RollbackStep[]) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Quiz upload failed: ${reason}\n${formatRollbackReport(rollback)}`, { cause });
+    this.name = "QuizUploadError";
+    this.quizId = quizId;
+    this.rollback = rollback;
+  }
+
+  get rolledBackCleanly(): boolean {
+    return this.rollback.every((step) => step.ok);
+  }
+}
+
+export function formatRollbackReport(rollback: RollbackStep[]): string {
+  if (rollback.length === 0) {
+    return "Rollback: nothing had been changed in Canvas.";
+  }
+  const lines = ["Rollback:"];
+  for (const step of rollback) {
+    lines.push(step.ok ? `- [ok] ${step.description}` : `- [FAILED] ${step.description}: ${step.error}`);
+  }
+  if (rollback.some((step) => !step.ok)) {
+    lines.push("Rollback incomplete. Fix the error and re-run create: questions already in Canvas are matched and not duplicated.");
+  }
+  return lines.join("\n");
+}
+
+// Undo in reverse order and keep going past failures so the report covers every step.
+async function runRollback(steps: UndoStep[]): Promise<RollbackStep[]> {
+  const report: RollbackStep[] = [];
+  for (const step of [...steps].reverse()) {
+    try {
+      await step.undo();
+      report.push({ description: step.description, ok: true });
+    } catch (err) {
+      report.push({
+        description: step.description,
+        ok: false,
+        error: err instanceof Error ? err.message.split("\n")[0] : String(err)
+      });
+    }
+  }
+  return report;
+}
+
+/**
+ * Creates the quiz, or brings a previously uploaded copy in line with the JSON by adding,
+ * updating and deleting only the questions that changed.
+ */
+export async function uploadQuiz(
+  client: CanvasClient,
+  courseId: number,
+  quiz: NexgenQuiz,
+  mapped: MappedCanvasQuiz,
+  options: QuizUploadOptions = {}
+): Promise<QuizUploadResult> {
+  const existing = options.forceNew ? undefined : await findExistingQuiz(client, courseId, quiz);
+
+  if (!existing) {
+    const created = await client.createQuiz(courseId, mapped.canvasQuiz);
+    let added = 0;
+    try {
+      const groupIds = new Map<string, number>();
+      for (const group of mapped.canvasGroups) {
+        const createdGroup = await client.createQuizGroup(courseId, created.id, group.settings);
+        groupIds.set(group.key, createdGroup.id);
+      }
+      for (const q of assignQuizGroupIds(mapped.canvasQuestions, mapped.canvasGroups, groupIds)) {
+        await client.addQuizQuestion(courseId, created.id, q);
+        added += 1;
+      }
+    } catch (err) {
+      const rollback = await runRollback([
+        {
+          description: `Delete new quiz ${created.id} "${created.title}" (${added} of ${mapped.canvasQuestions.length} questions had been added)`,
+          undo: () => client.deleteQuiz(courseId, created.id)
+        }
+      ]);
+      throw new QuizUploadError(err, created.id, rollback);
+    }
+    if (mapped.canvasQuiz.published === false) {
+      await refreshQuestionCount(client, courseId, created.id);
+    }
+    return {
+      action: "created",
+      quizId: created.id,
+      htmlUrl: created.html_url,
+      added,
+      updated: 0,
+      removed: 0,
+      unchanged: 0
+    };
+  }
+
+  const current = await client.listQuizQuestions(courseId, existing.id);
+  const groupPlan = planGroupSync(
+    await listQuestionGroups(client, courseId, existing.id, current),
+    mapped.canvasGroups
+  );
+  const groupIds = new Map<string, number>(
+    [...groupPlan.update, ...groupPlan.unchanged].map(({ existing: group, group: mappedGroup }) => [mappedGroup.key, group.id])
+  );
+  let plan = planQuestionSync(current, assignQuizGroupIds(mapped.canvasQuestions, mapped.canvasGroups, groupIds));
+  const journal: UndoStep[] = [];
+  // Rollback re-creates deleted groups under new ids; restored questions must point at those.
+  const recreatedGroupIds = new Map<number, number>();
+  const restoreQuestion = (record: CanvasQuizQuestionRecord) => {
+    const question = recordToCanvasQuestion(record);
+    const groupId = question.quiz_group_id ? recreatedGroupIds.get(question.quiz_group_id) : undefined;
+    return groupId === undefined ? question : { ...question, quiz_group_id: groupId };
+  };
+
+  try {
+    // Leave the published state alone: re-uploading must not pull a live quiz from students.
+    const { published: _published, ...settings } = mapped.canvasQuiz;
+    await client.updateQuiz(courseId, existing.id, settings);
+    journal.push({
+      description: `Restore settings of quiz ${existing.id}`,
+      undo: () => client.updateQuiz(courseId, existing.id, {
+        title: existing.title,
+        description: existing.description ?? "",
+        time_limit: existing.time_limit ?? null,
+        allowed_attempts: existing.allowed_attempts,
+        shuffle_answers: existing.shuffle_answers,
+        show_correct_answers: existing.show_correct_answers,
+        one_question_at_a_time: existing.one_question_at_a_time,
+        access_code: existing.access_code ?? null,
+        due_at: existing.due_at ?? null,
+        unlock_at: existing.unlock_at ?? null,
+        lock_at: existing.lock_at ?? null,
+        scoring_policy: existing.scoring_policy ?? undefined,
+        assignment_group_id: existing.assignment_group_id ?? undefined
+      })
+    });
+
+    for (const group of groupPlan.add) {
+      const created = await client.createQuizGroup(courseId, existing.id, group.settings);
+      groupIds.set(group.key, created.id);
+      journal.push({
+        description: `Delete new question group "${group.settings.name}" (id ${created.id})`,
+        undo: () => client.deleteQuizGroup(courseId, existing.id, created.id)
+      });
+    }
+    for (const { existing: previous, group } of groupPlan.update) {
+      await client.updateQuizGroup(courseId, existing.id, previous.id, group.settings);
+      journal.push({
+        description: `Restore question group "${previous.name}" (id ${previous.id})`,
+        undo: () => client.updateQuizGroup(courseId, existing.id, previous.id, {
+          name: previous.name,
+          pick_count: previous.pick_count,
+          question_points: previous.question_points
+        })
+      });
+    }
+    if (groupPlan.add.length > 0) {
+      // New groups' ids are part of what makes a question changed.
+      plan = planQuestionSync(current, assignQuizGroupIds(mapped.canvasQuestions, mapped.canvasGroups, groupIds));
+    }
+
+    for (const record of plan.remove) {
+      await client.deleteQuizQuestion(courseId, existing.id, record.id);
+      journal.push({
+        description: `Re-create deleted question ${record.question_name}`,
+        undo: () => client.addQuizQuestion(courseId, existing.id, restoreQuestion(record))
+      });
+    }
+    for (const { existing: record, question } of plan.update) {
+      await client.updateQuizQuestion(courseId, existing.id, record.id, question);
+      journal.push({
+        description: `Restore previous version of question ${record.question_name} (id ${record.id})`,
+        undo: () => client.updateQuizQuestion(courseId, existing.id, record.id, restoreQuestion(record))
+      });
+    }
+    for (const question of plan.add) {
+      const added = await client.addQuizQuestion(courseId, existing.id, question);
+      journal.push({
+        description: `Delete newly added question ${question.question_name} (id ${added.id})`,
+        undo: () => client.deleteQuizQuestion(courseId, existing.id, added.id)
+      });
+    }
+    // Last, once no question points at them any more.
+    for (const group of groupPlan.remove) {
+      await client.deleteQuizGroup(courseId, existing.id, group.id);
+      journal.push({
+        description: `Re-create deleted question group "${group.name}" (under a new id)`,
+        undo: async () => {
+          const recreated = await client.createQuizGroup(courseId, existing.id, {
+            name: group.name,
+            pick_count: group.pick_count,
+            question_points: group.question_points
+          });
+          recreatedGroupIds.set(group.id, recreated.id);
+        }
+      });
+    }
+  } catch (err) {
+    const rollback = await runRollback(journal);
+    throw new QuizUploadError(err, existing.id, rollback);
+  }
+
+  const changed = plan.add.length + plan.update.length + plan.remove.length
+    + groupPlan.add.length + groupPlan.update.length + groupPlan.remove.length > 0;
+  if (changed && existing.published === false) {
+    await refreshQuestionCount(client, courseId, existing.id);
+  }
+
+  return {
+    action: "updated",
+    quizId: existing.id,
+    htmlUrl: existing.html_url,
+    added: plan.add.length,
+    updated: plan.update.length,
+    removed: plan.remove.length,
+    unchanged: plan.unchanged.length
+  };
+}
+
+// Canvas only recalculates question_count for unpublished quizzes when they are saved.
+async function refreshQuestionCount(client: CanvasClient, courseId: number, quizId: number): Promise<void> {
+  try {
+    await client.updateQuiz(courseId, quizId, { published: true });
+    await client.updateQuiz(courseId, quizId, { published: false });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn(`Warning: unable to refresh quiz question count. You can publish/unpublish manually. ${message}`);
+  }
+}
@@ -0,0 +1,168 @@
+export type SourcePosition = {
+  /** 1-based. */
+  line: number;
+  /** 1-based. */
+  column: number;
+};
+
+export type JsonPointerLocation = {
+  /** Where the value starts. */
+  value: SourcePosition;
+  /** Where the property name starts, for object members. */
+  key?: SourcePosition;
+};
+
+export type JsonWithSourceMap = {
+  data: unknown;
+  /** Keyed by JSON pointer (`""` for the root, `/questions/2/choices`), the same form as Ajv's `instancePath`. */
+  pointers: Map<string, JsonPointerLocation>;
+};
+
+export class JsonSyntaxError extends Error {
+  /** The message without the position suffix. */
+  readonly reason: string;
+  readonly position: SourcePosition;
+
+  constructor(reason: string, position: SourcePosition) {
+    super(`${reason} at line ${position.line}, column ${position.column}`);
+    this.name = "JsonSyntaxError";
+    this.reason = reason;
+    this.position = position;
+  }
+}
+
+const STRING_RE = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+const LITERAL_RE = /(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/y;
+
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Parses JSON while recording where every value sits in the text, so validation errors can be
+ * reported as `file:line:column`. Produces the same data as `JSON.parse`.
+ */
+export function parseJsonWithSourceMap(text: string): JsonWithSourceMap {
+  const pointers = new Map<string, JsonPointerLocation>();
+  let pos = 0;
+  let line = 1;
+  let column = 1;
+
+  const here = (): SourcePosition => ({ line, column });
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, here());
+  };
+
+  const advance = (count: number): void => {
+    for (let i = 0; i < count; i += 1) {
+      if (text[pos] === "\n") {
+        line += 1;
+        column = 1;
+      } else {
+        column += 1;
+      }
+      pos += 1;
+    }
+  };
+
+  const skipWhitespace = (): void => {
+    while (pos < text.length && /[ \t\r\n\uFEFF]/.test(text[pos])) advance(1);
+  };
+
+  const expect = (ch: string): void => {
+    if (text[pos] !== ch) fail(`Expected "${ch}" but found ${pos < text.length ? `"${text[pos]}"` : "end of input"}`);
+    advance(1);
+  };
+
+  const parseString = (): string => {
+    STRING_RE.lastIndex = pos;
+    const match = STRING_RE.exec(text);
+    if (!match) fail("Invalid string");
+    const token = (match as RegExpExecArray)[0];
+    advance(token.length);
+    return JSON.parse(token) as string;
+  };
+
+  const parseValue = (pointer: string, key?: SourcePosition): unknown => {
+    skipWhitespace();
+    pointers.set(pointer, key ? { value: here(), key } : { value: here() });
+
+    const ch = text[pos];
+    if (ch === "{") {
+      advance(1);
+      const obj: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[pos] === "}") {
+        advance(1);
+        return obj;
+      }
+      for (;;) {
+        skipWhitespace();
+        const keyPosition = here();
+        if (text[pos] !== "\"") fail("Expected a property name");
+        const name = parseString();
+        skipWhitespace();
+        expect(":");
+        obj[name] = parseValue(`${pointer}/${escapePointerSegment(name)}`, keyPosition);
+        skipWhitespace();
+        if (text[pos] === ",") {
+          advance(1);
+          continue;
+        }
+        expect("}");
+        return obj;
+      }
+    }
+    if (ch === "[") {
+      advance(1);
+      const arr: unknown[] = [];
+      skipWhitespace();
+      if (text[pos] === "]") {
+        advance(1);
+        return arr;
+      }
+      for (;;) {
+        arr.push(parseValue(`${pointer}/${arr.length}`));
+        skipWhitespace();
+        if (text[pos] === ",") {
+          advance(1);
+          continue;
+        }
+        expect("]");
+        return arr;
+      }
+    }
+    if (ch === "\"") return parseString();
+
+    LITERAL_RE.lastIndex = pos;
+    const literal = LITERAL_RE.exec(text);
+    if (!literal) fail(pos < text.length ? `Unexpected character "${ch}"` : "Unexpected end of input");
+    const token = (literal as RegExpExecArray)[0];
+    advance(token.length);
+    return JSON.parse(token) as unknown;
+  };
+
+  const data = parseValue("");
+  skipWhitespace();
+  if (pos < text.length) fail(`Unexpected "${text[pos]}" after the end of the JSON value`);
+
+  return { data, pointers };
+}
+
+/**
+ * Finds the closest recorded location for a pointer, walking up to the parent when the pointer
+ * names something that is not in the file (e.g. a missing required property).
+ */
+export function locatePointer(
+  pointers: Map<string, JsonPointerLocation>,
+  pointer: string,
+  preferKey = false
+): SourcePosition | undefined {
+  let current = pointer;
+  for (;;) {
+    const location = pointers.get(current);
+    if (location) return (preferKey && location.key) || location.value;
+    if (current === "") return undefined;
+    current = current.slice(0, current.lastIndexOf("/"));
+  }
+}
@@ -1,39 +1,120 @@
 import Ajv2020 from "ajv/dist/2020.js";
 import addFormats from "ajv-formats";
-import schema from "../../../schemas/nexgen-quiz.v1.schema.json" with { type: "json" };
-import type { NexgenQuizV1 } from "../types.js";
+import type { ErrorObject, ValidateFunction } from "ajv";
+import schemaV1 from "../../../schemas/nexgen-quiz.v1.schema.json" with { type: "json" };
+import schemaV2 from "../../../schemas/nexgen-quiz.v2.schema.json" with { type: "json" };
+import type { QuizDimensions } from "../../shared/quizLimits.js";
+import { dateOrderIssues, semanticIssues, type QuizIssue } from "../../shared/quizSemantics.js";
+import type { NexgenQuiz, NexgenQuizOptions, NexgenQuizV1, NexgenQuizV2 } from "../types.js";
 
 const ajv = new Ajv2020({
   allErrors: true,
   strict: true,
-  $data: true
+  $data: true,
+  discriminator: true
 });
 
 addFormats(ajv);
 
-const validateFn = ajv.compile(schema);
-
-export function validateNexgenQuiz(input: unknown): NexgenQuizV1 {
-  const ok = validateFn(input);
-  if (!ok) {
-    const errors = validateFn.errors?.map(e => {
-      const path = e.instancePath || "/";
-      const msg = e.message || "Invalid";
-      return `${path} ${msg}`;
-    }) ?? ["Unknown validation error"];
-    throw new Error(`Quiz JSON failed schema validation:\n- ${errors.join("\n- ")}`);
-  }
+const validateV1 = ajv.compile(schemaV1);
+const validateV2 = ajv.compile(schemaV2);
+
+// Quiz options on their own (config defaults): the v1 settings minus the question/choice counts.
+const { questionCount: _questionCount, choicesPerQuestion: _choicesPerQuestion, ...optionProperties } =
+  schemaV1.properties.settings.properties;
+const validateOptions = ajv.compile({
+  type: "object",
+  additionalProperties: false,
+  properties: optionProperties
+});
 
-  const q = input as NexgenQuizV1;
+export type { QuizIssue, QuizIssueCode } from "../../shared/quizSemantics.js";
 
-  // Extra guardrails with clear errors
-  if (q.yearLevel.max < q.yearLevel.min) {
-    throw new Error(`yearLevel.max must be >= yearLevel.min (got ${q.yearLevel.min} to ${q.yearLevel.max})`);
+function describeSchemaError(error: ErrorObject): QuizIssue {
+  if (error.keyword === "additionalProperties") {
+    const property = String((error.params as { additionalProperty: string }).additionalProperty);
+    return {
+      code: "schema",
+      path: `${error.instancePath}/${property.replace(/~/g, "~0").replace(/\//g, "~1")}`,
+      message: `must NOT have additional property "${property}"`,
+      atKey: true
+    };
   }
+  return { code: "schema", path: error.instancePath, message: error.message || "Invalid" };
+}
+
+function schemaIssues(validateFn: ValidateFunction, input: unknown): QuizIssue[] {
+  if (validateFn(input)) return [];
+  return validateFn.errors?.map(describeSchemaError) ?? [{ code: "schema", path: "", message: "Unknown validation error" }];
+}
+
+/** Formats issues the way the CLI has always printed validation failures. */
+export function formatQuizIssues(issues: QuizIssue[]): string {
+  return `Quiz JSON failed validation:\n- ${issues.map((issue) => `${issue.path || "/"} ${issue.message}`).join("\n- ")}`;
+}
+
+function throwIfIssues(issues: QuizIssue[]): void {
+  if (issues.length > 0) throw new Error(formatQuizIssues(issues));
+}
+
+/**
+ * Returns every schema and semantic problem with a quiz of any supported schema version, picking
+ * the schema from `schemaVersion`. An empty list means the quiz is valid.
+ */
+export function findNexgenQuizIssues(input: unknown): QuizIssue[] {
+  const version = typeof input === "object" && input !== null
+    ? (input as { schemaVersion?: unknown }).schemaVersion
+    : undefined;
+  const validateFn = version === "nexgen-quiz.v2" ? validateV2 : validateV1;
+  return [...schemaIssues(validateFn, input), ...semanticIssues(input)];
+}
+
+/**
+ * Validates Nexgen quiz JSON of any supported schema version, dispatching on `schemaVersion`.
+ */
+export function validateNexgenQuiz(input: unknown): NexgenQuiz {
+  throwIfIssues(findNexgenQuizIssues(input));
+  return input as NexgenQuiz;
+}
 
-  // Ensure ids are unique
-  const ids = new Set(q.questions.map(x => x.id));
-  if (ids.size !== q.questions.length) throw new Error("Question ids must be unique (Q1..Q5).");
+export function validateNexgenQuizV1(input: unknown): NexgenQuizV1 {
+  throwIfIssues([...schemaIssues(validateV1, input), ...semanticIssues(input)]);
+  return input as NexgenQuizV1;
+}
+
+export function validateNexgenQuizV2(input: unknown): NexgenQuizV2 {
+  throwIfIssues([...schemaIssues(validateV2, input), ...semanticIssues(input)]);
+  return input as NexgenQuizV2;
+}
 
-  return q;
+/**
+ * Validates quiz options given outside a quiz file (per-course config defaults), using the same
+ * rules as `settings` in the schema.
+ */
+export function validateQuizOptions(input: unknown, label: string): NexgenQuizOptions {
+  const issues = [...schemaIssues(validateOptions, input)];
+  if (issues.length === 0) issues.push(...dateOrderIssues(input as NexgenQuizOptions, ""));
+  if (issues.length > 0) {
+    throw new Error(`${label}:\n- ${issues.map((issue) => `${issue.path || "/"} ${issue.message}`).join("\n- ")}`);
+  }
+  return input as NexgenQuizOptions;
+}
+
+/**
+ * Checks a validated quiz against the question/choice counts that were requested, so an agent
+ * or file that ignored `--question-count`/`--choices` is rejected before upload.
+ * For v2 quizzes the choice count applies to `multiple_choice` questions only.
+ */
+export function assertQuizMatchesDimensions(quiz: NexgenQuiz, expected: QuizDimensions): void {
+  if (quiz.questions.length !== expected.questionCount) {
+    throw new Error(`Expected ${expected.questionCount} questions but the quiz has ${quiz.questions.length}.`);
+  }
+  for (const question of quiz.questions) {
+    if (question.type !== "multiple_choice") continue;
+    if (question.choices.length !== expected.choicesPerQuestion) {
+      throw new Error(
+        `${question.id}: expected ${expected.choicesPerQuestion} choices but found ${question.choices.length}.`
+      );
+    }
+  }
 }
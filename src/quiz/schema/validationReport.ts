@@ -0,0 +1,236 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { lintQuiz, type LintConfig } from "../lint/quizLint.js";
+import { BUILT_IN_LINT_RULES } from "../lint/rules.js";
+import { QuizMarkdownError } from "../markdown/quizMarkdown.js";
+import { findQuizImageProblems } from "../quizImages.js";
+import { loadQuizFile } from "../quizLoader.js";
+import { JsonSyntaxError, locatePointer, parseJsonWithSourceMap } from "./jsonSourceMap.js";
+import type { NexgenQuiz } from "../types.js";
+import { findNexgenQuizIssues, type QuizIssue, type QuizIssueCode } from "./validate.js";
+
+export type FileIssue = Omit<QuizIssue, "code" | "atKey"> & {
+  /** A validation code, or `lint/<rule>` for content lint findings. */
+  code: QuizIssueCode | "json-syntax" | "markdown-syntax" | "unreadable" | "image-file" | `lint/${string}`;
+  severity: "error" | "warning";
+  /** 1-based; absent when the source format has no position for the issue. */
+  line?: number;
+  column?: number;
+};
+
+export type FileValidationResult = {
+  file: string;
+  valid: boolean;
+  issues: FileIssue[];
+  /** Non-fatal notes from format conversion (Markdown/QTI). */
+  warnings: string[];
+};
+
+export type ValidationReportFormat = "text" | "json" | "sarif";
+
+const RULE_DESCRIPTIONS: Record<Exclude<FileIssue["code"], `lint/${string}`>, string> = {
+  "schema": "The quiz does not match its JSON schema.",
+  "json-syntax": "The file is not valid JSON.",
+  "markdown-syntax": "The file does not follow the Markdown quiz authoring format.",
+  "unreadable": "The file could not be read or converted.",
+  "year-level-range": "yearLevel.max must not be below yearLevel.min.",
+  "duplicate-question-id": "Question ids must be unique.",
+  "question-count-mismatch": "settings.questionCount must equal the number of questions.",
+  "choice-count-mismatch": "Every question must have settings.choicesPerQuestion choices.",
+  "correct-index-range": "Correct answer indexes must point at an existing choice.",
+  "duplicate-choice": "Choices within a question must be distinct.",
+  "duplicate-correct-answer": "The correct answer text must not appear as another choice.",
+  "empty-explanation": "Explanations must not be blank.",
+  "date-order": "unlockAt, dueAt and lockAt must be in that order.",
+  "duplicate-matching-prompt": "Matching pairs must have unique left-hand prompts.",
+  "choice-feedback-count": "choiceFeedback must have one entry per choice.",
+  "duplicate-group-id": "Question group ids must be unique.",
+  "unknown-group": "A question's group must be defined in groups.",
+  "group-pick-count": "A group's pickCount cannot exceed the number of questions in it.",
+  "image-file": "Question images must exist next to the quiz file and be at most 5 MB."
+};
+
+function unreadable(file: string, message: string): FileValidationResult {
+  return {
+    file,
+    valid: false,
+    issues: [{ code: "unreadable", severity: "error", path: "", message }],
+    warnings: []
+  };
+}
+
+type UnplacedIssue = Omit<FileIssue, "line" | "column"> & { atKey?: boolean };
+
+/**
+ * Schema/semantic issues. Once the quiz is otherwise valid, also missing image files (resolved
+ * against `file`'s folder) and lint findings.
+ */
+async function collectIssues(data: unknown, file: string, lint: LintConfig | undefined): Promise<UnplacedIssue[]> {
+  const issues: UnplacedIssue[] = findNexgenQuizIssues(data).map((issue) => ({ ...issue, severity: "error" as const }));
+  if (issues.length > 0) return issues;
+
+  const quiz = data as NexgenQuiz;
+  for (const problem of await findQuizImageProblems(quiz, path.dirname(path.resolve(file)))) {
+    issues.push({ code: "image-file", severity: "error", ...problem });
+  }
+  if (!lint) return issues;
+  return [
+    ...issues,
+    ...lintQuiz(quiz, lint).map((finding): UnplacedIssue => ({
+      code: `lint/${finding.rule}`,
+      severity: finding.severity,
+      path: finding.path,
+      message: finding.message
+    }))
+  ];
+}
+
+function toResult(file: string, issues: FileIssue[], warnings: string[]): FileValidationResult {
+  return { file, valid: !issues.some((issue) => issue.severity === "error"), issues, warnings };
+}
+
+/**
+ * Validates one quiz file and reports every problem, plus content lint findings when `lint` is
+ * given. JSON files get line/column positions from a source map; Markdown files get lines for
+ * parse errors; QTI files report conversion errors as-is.
+ */
+export async function validateQuizFile(file: string, lint?: LintConfig): Promise<FileValidationResult> {
+  if (!/\.json$/i.test(file)) {
+    try {
+      const loaded = await loadQuizFile(file);
+      const issues = (await collectIssues(loaded.raw, file, lint)).map(({ atKey: _atKey, ...issue }): FileIssue => issue);
+      return toResult(file, issues, loaded.warnings);
+    } catch (err) {
+      if (err instanceof QuizMarkdownError) {
+        const issues = err.problems.map(({ line, message }): FileIssue => ({
+          code: "markdown-syntax",
+          severity: "error",
+          path: "",
+          message,
+          line
+        }));
+        return toResult(file, issues, []);
+      }
+      return unreadable(file, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  let text: string;
+  try {
+    text = await fs.readFile(file, "utf8");
+  } catch (err) {
+    return unreadable(file, err instanceof Error ? err.message : String(err));
+  }
+
+  let parsed: ReturnType<typeof parseJsonWithSourceMap>;
+  try {
+    parsed = parseJsonWithSourceMap(text);
+  } catch (err) {
+    if (!(err instanceof JsonSyntaxError)) throw err;
+    return toResult(file, [{ code: "json-syntax", severity: "error", path: "", message: err.reason, ...err.position }], []);
+  }
+
+  const issues = (await collectIssues(parsed.data, file, lint)).map(({ atKey, ...issue }): FileIssue => ({
+    ...issue,
+    ...locatePointer(parsed.pointers, issue.path, atKey)
+  }));
+  issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+  return toResult(file, issues, []);
+}
+
+function describeCode(code: FileIssue["code"]): string {
+  if (code.startsWith("lint/")) {
+    const rule = BUILT_IN_LINT_RULES.find((candidate) => `lint/${candidate.id}` === code);
+    return rule?.description ?? "Quiz content lint rule.";
+  }
+  return RULE_DESCRIPTIONS[code as Exclude<FileIssue["code"], `lint/${string}`>];
+}
+
+function formatLocation(result: FileValidationResult, issue: FileIssue): string {
+  return issue.line === undefined ? result.file : `${result.file}:${issue.line}:${issue.column ?? 1}`;
+}
+
+/** Compiler-style `file:line:column severity message [code]` lines plus a summary. */
+export function formatTextReport(results: FileValidationResult[]): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    for (const issue of result.issues) {
+      const where = issue.path ? ` (${issue.path})` : "";
+      lines.push(`${formatLocation(result, issue)} ${issue.severity} ${issue.message}${where} [${issue.code}]`);
+    }
+    for (const warning of result.warnings) {
+      lines.push(`${result.file} warning ${warning}`);
+    }
+  }
+  const failed = results.filter((result) => !result.valid).length;
+  const errorCount = results.reduce(
+    (sum, result) => sum + result.issues.filter((issue) => issue.severity === "error").length,
+    0
+  );
+  const warningCount = results.reduce(
+    (sum, result) => sum + result.issues.filter((issue) => issue.severity === "warning").length,
+    0
+  );
+  const warningNote = warningCount > 0 ? `, ${warningCount} lint warning(s)` : "";
+  lines.push(
+    failed === 0
+      ? `${results.length} file(s) valid${warningNote}.`
+      : `${failed} of ${results.length} file(s) invalid, ${errorCount} error(s)${warningNote}.`
+  );
+  return lines.join("\n");
+}
+
+export function buildJsonReport(results: FileValidationResult[]): unknown {
+  return {
+    valid: results.every((result) => result.valid),
+    files: results
+  };
+}
+
+/** SARIF 2.1.0, as read by GitHub code scanning and the VS Code SARIF viewer. */
+export function buildSarifReport(results: FileValidationResult[]): unknown {
+  const usedCodes = [...new Set(results.flatMap((result) => result.issues.map((issue) => issue.code)))].sort();
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "nexgen-canvas validate",
+            informationUri: "https://nexgenstemschool.com.au/schemas/nexgen-quiz.v1.schema.json",
+            rules: usedCodes.map((code) => ({ id: code, shortDescription: { text: describeCode(code) } }))
+          }
+        },
+        results: results.flatMap((result) => [
+          ...result.issues.map((issue) => ({
+            ruleId: issue.code,
+            level: issue.severity,
+            message: { text: issue.path ? `${issue.message} (${issue.path})` : issue.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: result.file.split(path.sep).join("/") },
+                  ...(issue.line !== undefined
+                    ? { region: { startLine: issue.line, startColumn: issue.column ?? 1 } }
+                    : {})
+                }
+              }
+            ]
+          })),
+          ...result.warnings.map((warning) => ({
+            level: "warning",
+            message: { text: warning },
+            locations: [{ physicalLocation: { artifactLocation: { uri: result.file.split(path.sep).join("/") } } }]
+          }))
+        ])
+      }
+    ]
+  };
+}
+
+export function renderValidationReport(results: FileValidationResult[], format: ValidationReportFormat): string {
+  if (format === "json") return `${JSON.stringify(buildJsonReport(results), null, 2)}\n`;
+  if (format === "sarif") return `${JSON.stringify(buildSarifReport(results), null, 2)}\n`;
+  return `${formatTextReport(results)}\n`;
+}
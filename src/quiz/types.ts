@@ -1,30 +1,134 @@
-export type NexgenQuizV1 = {
-  schemaVersion: "nexgen-quiz.v1";
+import type {
+  NexgenQuizV1 as SchemaQuizV1,
+  QuestionGroup,
+  QuizImage as SchemaQuizImage,
+  TextFormat
+} from "../shared/nexgenQuiz.generated.js";
+
+/** Canvas quiz options shared by every schema version; all optional, Canvas defaults apply. */
+export type NexgenQuizOptions = {
+  shuffleAnswers?: boolean;
+  timeLimitMinutes?: number;
+  allowedAttempts?: number;
+  showCorrectAnswers?: boolean;
+  oneQuestionAtATime?: boolean;
+  accessCode?: string;
+  /** ISO 8601 date-time. */
+  dueAt?: string;
+  unlockAt?: string;
+  lockAt?: string;
+  /** Which attempt counts when `allowedAttempts` > 1. */
+  scoringPolicy?: "keep_highest" | "keep_latest";
+  assignmentGroupId?: number;
+};
+
+/**
+ * How prompts, choices, explanations and choice feedback are written. `plain` is escaped as-is;
+ * `markdown` and `html` become HTML in Canvas, with `$...$` / `$$...$$` LaTeX turned into equations.
+ */
+export type QuizTextFormat = TextFormat;
+
+/** A local image shown under a question's prompt; `src` is relative to the quiz file. `width` is in pixels. */
+export type QuizImage = SchemaQuizImage;
+
+/**
+ * A Canvas quiz group: students get `pickCount` of its questions at random, each worth `questionPoints`.
+ * `name` is shown in Canvas and defaults to `id`.
+ */
+export type NexgenQuestionGroup = QuestionGroup;
+
+/**
+ * Generated from the v1 schema (see `src/shared`), the contract the agent worker is held to as well.
+ * `id` is the stable slug used to find the quiz again in Canvas; a question's `group` is the id of an
+ * entry in `groups`.
+ */
+export type NexgenQuizV1 = SchemaQuizV1;
+
+export type QuizDifficulty = "easy" | "medium" | "hard";
+
+/** Points for questions that do not set `points`, by `difficulty` (config `quiz.defaults.pointsByDifficulty`). */
+export type QuizPointsByDifficulty = Record<QuizDifficulty, number>;
+
+type NexgenQuestionBase = {
+  id: string;
+  prompt: string;
+  images?: QuizImage[];
+  /** Overrides the quiz's `textFormat` for this question. */
+  textFormat?: QuizTextFormat;
+  points?: number;
+  group?: string;
+  explanation?: string;
+  difficulty?: QuizDifficulty;
+  outcomeTags?: string[];
+};
+
+export type NexgenMultipleChoiceQuestion = NexgenQuestionBase & {
+  type: "multiple_choice";
+  choices: string[];
+  correctIndex: number;
+  choiceFeedback?: string[];
+};
+
+export type NexgenTrueFalseQuestion = NexgenQuestionBase & {
+  type: "true_false";
+  correctAnswer: boolean;
+};
+
+export type NexgenMultipleAnswersQuestion = NexgenQuestionBase & {
+  type: "multiple_answers";
+  choices: string[];
+  correctIndices: number[];
+  choiceFeedback?: string[];
+};
+
+export type NexgenShortAnswerQuestion = NexgenQuestionBase & {
+  type: "short_answer";
+  acceptedAnswers: string[];
+};
+
+export type NexgenNumericalQuestion = NexgenQuestionBase & {
+  type: "numerical";
+  answer: number;
+  tolerance?: number;
+};
+
+export type NexgenMatchingQuestion = NexgenQuestionBase & {
+  type: "matching";
+  pairs: Array<{ left: string; right: string }>;
+  distractors?: string[];
+};
+
+export type NexgenEssayQuestion = NexgenQuestionBase & {
+  type: "essay";
+};
+
+export type NexgenQuestionV2 =
+  | NexgenMultipleChoiceQuestion
+  | NexgenTrueFalseQuestion
+  | NexgenMultipleAnswersQuestion
+  | NexgenShortAnswerQuestion
+  | NexgenNumericalQuestion
+  | NexgenMatchingQuestion
+  | NexgenEssayQuestion;
+
+export type NexgenQuestionType = NexgenQuestionV2["type"];
+
+export type NexgenQuizV2 = {
+  schemaVersion: "nexgen-quiz.v2";
+  id?: string;
   title: string;
   description?: string;
+  /** Default for every question; `plain` when unset. */
+  textFormat?: QuizTextFormat;
   topic?: string;
   tags?: string[];
   yearLevel: { min: 7 | 8 | 9 | 10; max: 7 | 8 | 9 | 10 };
-  settings: {
-    questionCount: 5;
-    choicesPerQuestion: 4;
-    shuffleAnswers?: boolean;
-    timeLimitMinutes?: number;
-    allowedAttempts?: number;
-  };
-  questions: Array<{
-    id: "Q1" | "Q2" | "Q3" | "Q4" | "Q5";
-    type: "multiple_choice";
-    prompt: string;
-    choices: [string, string, string, string];
-    correctIndex: 0 | 1 | 2 | 3;
-    explanation?: string;
-    difficulty?: "easy" | "medium" | "hard";
-    outcomeTags?: string[];
-  }>;
-  source?: {
-    prompt?: string;
-    generator?: string;
-    generatedAtUtc?: string;
+  settings: NexgenQuizOptions & {
+    questionCount: number;
   };
+  questions: NexgenQuestionV2[];
+  groups?: NexgenQuestionGroup[];
+  source?: NexgenQuizV1["source"];
 };
+
+export type NexgenQuiz = NexgenQuizV1 | NexgenQuizV2;
@@ -0,0 +1,87 @@
+import type {
+  CanvasClient,
+  CanvasModuleItem,
+  CanvasModuleSummary
+} from "../canvas/canvasClient.js";
+import { resolveModuleByName } from "./sessionHeaders.js";
+
+export type QuizPlacementTarget = {
+  module: CanvasModuleSummary;
+  moduleItems: CanvasModuleItem[];
+  quizHeader: CanvasModuleItem;
+};
+
+export type QuizPlacementResult = {
+  action: "created" | "moved" | "unchanged";
+  position: number;
+};
+
+const QUIZ_HEADER_TITLE = "quiz";
+
+/**
+ * Resolves the session module and its `QUIZ` subheader up front, so a missing header is
+ * reported before anything is uploaded.
+ */
+export async function resolveQuizPlacement(
+  client: CanvasClient,
+  courseId: number,
+  moduleName: string
+): Promise<QuizPlacementTarget> {
+  const module = await resolveModuleByName(client, courseId, moduleName);
+  const moduleItems = await client.listModuleItems(courseId, module.id);
+  const sortedItems = [...moduleItems].sort((a, b) => a.position - b.position);
+
+  const quizHeader = sortedItems.find(
+    (item) => item.type === "SubHeader" && item.title.trim().toLowerCase() === QUIZ_HEADER_TITLE
+  );
+  if (!quizHeader) {
+    throw new Error(
+      `Module "${module.name}" has no QUIZ subheader. Run session-headers for this module first.`
+    );
+  }
+
+  return { module, moduleItems: sortedItems, quizHeader };
+}
+
+/** Items after the QUIZ subheader, up to the next subheader or the end of the module. */
+export function quizSectionItems(target: QuizPlacementTarget): CanvasModuleItem[] {
+  const after = target.moduleItems.filter((item) => item.position > target.quizHeader.position);
+  const nextHeader = after.find((item) => item.type === "SubHeader");
+  return nextHeader ? after.filter((item) => item.position < nextHeader.position) : after;
+}
+
+/**
+ * Links the quiz into the module's QUIZ section, after any quizzes already there, so re-runs
+ * keep their order. A link already in the section is left alone; one elsewhere in the module is
+ * moved to the end of the section rather than adding a second one.
+ */
+export async function placeQuizInModule(
+  client: CanvasClient,
+  courseId: number,
+  target: QuizPlacementTarget,
+  quiz: { id: number; title: string }
+): Promise<QuizPlacementResult> {
+  const section = quizSectionItems(target);
+  const existingItem = target.moduleItems.find(
+    (item) => item.type === "Quiz" && item.content_id === quiz.id
+  );
+  if (existingItem && section.includes(existingItem)) {
+    return { action: "unchanged", position: existingItem.position };
+  }
+
+  const sectionEnd = section.length > 0 ? section[section.length - 1].position : target.quizHeader.position;
+  if (!existingItem) {
+    const position = sectionEnd + 1;
+    await client.createModuleQuizItem(courseId, target.module.id, {
+      title: quiz.title,
+      quizId: quiz.id,
+      position
+    });
+    return { action: "created", position };
+  }
+
+  // Taking the item out from above the section shifts the section up by one.
+  const position = existingItem.position < sectionEnd ? sectionEnd : sectionEnd + 1;
+  await client.updateModuleItemPosition(courseId, target.module.id, existingItem.id, position);
+  return { action: "moved", position };
+}
@@ -0,0 +1,91 @@
+import type { CanvasClient, CanvasModuleItem, CanvasModuleSummary } from "../canvas/canvasClient.js";
+import { toPlainText } from "../util/html.js";
+import { resolveModuleByName } from "./sessionHeaders.js";
+
+export type SessionPageContext = {
+  title: string;
+  pageUrl: string;
+  position: number;
+  bodyHtml: string;
+  bodyText: string;
+};
+
+export type SessionPages = {
+  module: CanvasModuleSummary;
+  /** Every item in the module, in position order. */
+  moduleItems: CanvasModuleItem[];
+  modulePages: SessionPageContext[];
+};
+
+export type CollectSessionPagesOptions = {
+  /** Page title to leave out, e.g. the teacher notes page being rebuilt. */
+  excludeTitle?: string;
+};
+
+/**
+ * The session's student-facing pages with their text, in module order. Teacher notes pages
+ * (by title, or listed under the `Teachers Notes` subheader) are left out.
+ */
+export async function collectSessionPages(
+  client: CanvasClient,
+  courseId: number,
+  sessionName: string,
+  options: CollectSessionPagesOptions = {}
+): Promise<SessionPages> {
+  const module = await resolveModuleByName(client, courseId, sessionName);
+  const moduleItems = await client.listModuleItems(courseId, module.id);
+  const sortedItems = [...moduleItems].sort((a, b) => a.position - b.position);
+
+  const teacherNotesRange = findTeacherNotesRange(sortedItems);
+  const excludeKey = options.excludeTitle?.trim().toLowerCase();
+  const pageItems = sortedItems.filter(
+    (item) =>
+      item.type === "Page" &&
+      !!item.page_url &&
+      item.title.trim().toLowerCase() !== excludeKey &&
+      !item.title.toLowerCase().includes("teacher notes") &&
+      !isPositionInRange(item.position, teacherNotesRange)
+  );
+  const modulePages = (
+    await Promise.all(
+      pageItems.map(async (item) => {
+        const page = await client.getPage(courseId, String(item.page_url));
+        return {
+          title: item.title,
+          pageUrl: String(item.page_url),
+          position: item.position,
+          bodyHtml: page.body ?? "",
+          bodyText: toPlainText(page.body ?? "")
+        };
+      })
+    )
+  ).sort((a, b) => a.position - b.position);
+
+  return { module, moduleItems: sortedItems, modulePages };
+}
+
+function findTeacherNotesRange(
+  items: CanvasModuleItem[]
+): { start: number; endExclusive: number } | undefined {
+  const sorted = [...items].sort((a, b) => a.position - b.position);
+  const header = sorted.find(
+    (item) => item.type === "SubHeader" && item.title.trim().toLowerCase() === "teachers notes"
+  );
+  if (!header) return undefined;
+
+  const nextSubHeader = sorted.find(
+    (item) => item.type === "SubHeader" && item.position > header.position
+  );
+  return {
+    start: header.position,
+    endExclusive: nextSubHeader ? nextSubHeader.position : Number.POSITIVE_INFINITY
+  };
+}
+
+function isPositionInRange(
+  position: number,
+  range: { start: number; endExclusive: number } | undefined
+): boolean {
+  if (!range) return false;
+  return position > range.start && position < range.endExclusive;
+}
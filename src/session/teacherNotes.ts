@@ -3,15 +3,8 @@ import {
   CanvasModuleItem,
   CanvasModuleSummary
 } from "../canvas/canvasClient.js";
-import { resolveModuleByName } from "./sessionHeaders.js";
-
-type SessionPageContext = {
-  title: string;
-  pageUrl: string;
-  position: number;
-  bodyHtml: string;
-  bodyText: string;
-};
+import { collectSessionPages, type SessionPageContext } from "./sessionPages.js";
+import { escapeHtml } from "../util/html.js";
 
 type SessionTask = {
   title: string;
@@ -68,34 +61,9 @@ export async function buildTeacherNotesForSession(
   sessionName: string,
   pageTitle: string
 ): Promise<TeacherNotesBuildResult> {
-  const module = await resolveModuleByName(client, courseId, sessionName);
-  const moduleItems = await client.listModuleItems(courseId, module.id);
-  const sortedItems = [...moduleItems].sort((a, b) => a.position - b.position);
-
-  const teacherNotesRange = findTeacherNotesRange(sortedItems);
-  const pageTitleKey = pageTitle.trim().toLowerCase();
-  const pageItems = sortedItems.filter(
-    (item) =>
-      item.type === "Page" &&
-      !!item.page_url &&
-      item.title.trim().toLowerCase() !== pageTitleKey &&
-      !item.title.toLowerCase().includes("teacher notes") &&
-      !isPositionInRange(item.position, teacherNotesRange)
-  );
-  const modulePages = (
-    await Promise.all(
-      pageItems.map(async (item) => {
-        const page = await client.getPage(courseId, String(item.page_url));
-        return {
-          title: item.title,
-          pageUrl: String(item.page_url),
-          position: item.position,
-          bodyHtml: page.body ?? "",
-          bodyText: toPlainText(page.body ?? "")
-        };
-      })
-    )
-  ).sort((a, b) => a.position - b.position);
+  const { module, moduleItems: sortedItems, modulePages } = await collectSessionPages(client, courseId, sessionName, {
+    excludeTitle: pageTitle
+  });
 
   const notesHtml = renderTeacherNotesHtml(pageTitle, sessionName, sortedItems, modulePages);
   const insertionPosition = findTeacherNotesInsertionPosition(sortedItems);
@@ -109,32 +77,6 @@ export async function buildTeacherNotesForSession(
   };
 }
 
-function findTeacherNotesRange(
-  items: CanvasModuleItem[]
-): { start: number; endExclusive: number } | undefined {
-  const sorted = [...items].sort((a, b) => a.position - b.position);
-  const header = sorted.find(
-    (item) => item.type === "SubHeader" && item.title.trim().toLowerCase() === "teachers notes"
-  );
-  if (!header) return undefined;
-
-  const nextSubHeader = sorted.find(
-    (item) => item.type === "SubHeader" && item.position > header.position
-  );
-  return {
-    start: header.position,
-    endExclusive: nextSubHeader ? nextSubHeader.position : Number.POSITIVE_INFINITY
-  };
-}
-
-function isPositionInRange(
-  position: number,
-  range: { start: number; endExclusive: number } | undefined
-): boolean {
-  if (!range) return false;
-  return position > range.start && position < range.endExclusive;
-}
-
 function renderTeacherNotesHtml(
   pageTitle: string,
   sessionName: string,
@@ -482,57 +424,6 @@ function firstSentence(text: string): string | undefined {
   return fallback.length ? `${fallback}.` : undefined;
 }
 
-function toPlainText(html: string): string {
-  const noTags = html
-    .replace(/<style[\s\S]*?<\/style>/gi, " ")
-    .replace(/<script[\s\S]*?<\/script>/gi, " ")
-    .replace(/<br\s*\/?>/gi, "\n")
-    .replace(/<\/(p|li|h1|h2|h3|h4|h5|h6|div)>/gi, "\n")
-    .replace(/<[^>]+>/g, " ");
-
-  return decodeHtmlEntities(noTags).replace(SPACE_RE, " ").trim();
-}
-
-function decodeHtmlEntities(input: string): string {
-  const named: Record<string, string> = {
-    amp: "&",
-    lt: "<",
-    gt: ">",
-    quot: "\"",
-    apos: "'",
-    nbsp: " ",
-    ndash: "-",
-    mdash: "-",
-    rsquo: "'",
-    lsquo: "'",
-    ldquo: "\"",
-    rdquo: "\"",
-    times: "x"
-  };
-
-  return input.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
-    const key = String(entity).toLowerCase();
-    if (key.startsWith("#x")) {
-      const code = Number.parseInt(key.slice(2), 16);
-      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
-    }
-    if (key.startsWith("#")) {
-      const code = Number.parseInt(key.slice(1), 10);
-      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
-    }
-    return named[key] ?? match;
-  });
-}
-
-function escapeHtml(input: string): string {
-  return input
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
-}
-
 function cleanupSentence(input: string): string {
   return input
     .replace(/^hi all[,!\s]*/i, "")
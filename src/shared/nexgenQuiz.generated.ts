@@ -0,0 +1,89 @@
+// Generated from schemas/nexgen-quiz.v1.schema.json by scripts/generate-quiz-types.mjs. Do not edit.
+
+export type TextFormat = "plain" | "markdown" | "html";
+
+export interface NexgenQuizV1 {
+  schemaVersion: "nexgen-quiz.v1";
+  id?: string;
+  title: string;
+  description?: string;
+  textFormat?: TextFormat;
+  topic?: string;
+  /**
+   * @maxItems 12
+   */
+  tags?: string[];
+  yearLevel: {
+    min: number;
+    max: number;
+  };
+  settings: {
+    questionCount: number;
+    choicesPerQuestion: number;
+    shuffleAnswers?: boolean;
+    timeLimitMinutes?: number;
+    allowedAttempts?: number;
+    showCorrectAnswers?: boolean;
+    oneQuestionAtATime?: boolean;
+    accessCode?: string;
+    dueAt?: string;
+    unlockAt?: string;
+    lockAt?: string;
+    scoringPolicy?: "keep_highest" | "keep_latest";
+    assignmentGroupId?: number;
+  };
+  /**
+   * @minItems 1
+   * @maxItems 50
+   */
+  questions: Question[];
+  /**
+   * @maxItems 20
+   */
+  groups?: QuestionGroup[];
+  source?: {
+    prompt?: string;
+    generator?: string;
+    generatedAtUtc?: string;
+  };
+}
+export interface Question {
+  id: string;
+  type: "multiple_choice";
+  prompt: string;
+  /**
+   * @minItems 2
+   * @maxItems 6
+   */
+  choices: string[];
+  correctIndex: number;
+  /**
+   * @minItems 1
+   * @maxItems 4
+   */
+  images?: QuizImage[];
+  textFormat?: TextFormat;
+  points?: number;
+  group?: string;
+  explanation?: string;
+  /**
+   * @maxItems 6
+   */
+  choiceFeedback?: string[];
+  difficulty?: "easy" | "medium" | "hard";
+  /**
+   * @maxItems 6
+   */
+  outcomeTags?: string[];
+}
+export interface QuizImage {
+  src: string;
+  alt: string;
+  width?: number;
+}
+export interface QuestionGroup {
+  id: string;
+  name?: string;
+  pickCount: number;
+  questionPoints: number;
+}
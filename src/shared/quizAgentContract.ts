@@ -0,0 +1,67 @@
+// The request/response contract between the CLI and the quiz agent worker.
+import type { NexgenQuizV1, Question } from "./nexgenQuiz.generated.js";
+import { toNonEmptyString } from "./quizSanitize.js";
+
+/** Source material for a grounded quiz. Questions cite it in `outcomeTags` as `source:<id>`. */
+export type QuizSource = {
+  id: string;
+  title: string;
+  text: string;
+};
+
+/** Body of a POST to the agent. The response is a nexgen-quiz.v1 quiz. */
+export type QuizAgentRequest = {
+  prompt: string;
+  schemaVersion?: "nexgen-quiz.v1";
+  settings?: Partial<NexgenQuizV1["settings"]>;
+  yearLevel?: {
+    min?: number;
+    max?: number;
+  };
+  /** Pages to write the questions from (`create --from-module`); each question cites one. */
+  sources?: QuizSource[];
+  /** Replace one question of an existing quiz instead of writing a new quiz (review step of `create`). */
+  regenerate?: {
+    quiz: NexgenQuizV1;
+    questionId: string;
+    /** What the teacher wants changed, if anything. */
+    instructions?: string;
+  };
+};
+
+export const SOURCE_TAG_PREFIX = "source:";
+/** Response header with the number of correction rounds the model needed. */
+export const QUIZ_REPAIRS_HEADER = "X-Quiz-Repairs";
+export const QUIZ_SOURCE_LIMITS = {
+  maxSources: 40,
+  maxTotalChars: 60000
+} as const;
+
+/** Null unless every source has a non-empty id, title and text, within `QUIZ_SOURCE_LIMITS`. */
+export function sanitizeSources(value: unknown): QuizSource[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > QUIZ_SOURCE_LIMITS.maxSources) return null;
+  const sources: QuizSource[] = [];
+  for (const raw of value) {
+    const record = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+    const id = toNonEmptyString(record.id);
+    const title = toNonEmptyString(record.title);
+    const text = toNonEmptyString(record.text);
+    if (!id || !title || !text || sources.some((source) => source.id === id)) return null;
+    sources.push({ id, title, text });
+  }
+  const total = sources.reduce((sum, source) => sum + source.text.length, 0);
+  return total <= QUIZ_SOURCE_LIMITS.maxTotalChars ? sources : null;
+}
+
+/** Every question must cite at least one of the sources, and only those. */
+export function citationProblems(questions: Question[], sources: QuizSource[]): string[] {
+  const known = new Set(sources.map((source) => `${SOURCE_TAG_PREFIX}${source.id}`));
+  return questions.flatMap((question, idx) => {
+    const cited = (question.outcomeTags ?? []).filter((tag) => tag.startsWith(SOURCE_TAG_PREFIX));
+    const unknown = cited.filter((tag) => !known.has(tag));
+    if (unknown.length > 0) {
+      return [`/questions/${idx}/outcomeTags cites ${unknown.map((tag) => `"${tag}"`).join(", ")}, which is not one of the sources`];
+    }
+    return cited.length === 0 ? [`/questions/${idx}/outcomeTags must cite its source page as "${SOURCE_TAG_PREFIX}<id>"`] : [];
+  });
+}
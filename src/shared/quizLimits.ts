@@ -0,0 +1,50 @@
+// Bounds shared by the schemas, config, CLI flags, agent payloads and the agent worker.
+export const QUIZ_LIMITS = {
+  minQuestions: 1,
+  maxQuestions: 50,
+  minChoices: 2,
+  maxChoices: 6,
+  minYearLevel: 7,
+  maxYearLevel: 10
+} as const;
+
+export type QuizDimensions = {
+  questionCount: number;
+  choicesPerQuestion: number;
+};
+
+/** What is wrong with the counts, or undefined if they are within `QUIZ_LIMITS`. */
+export function quizDimensionsProblem(dimensions: QuizDimensions, label = "Quiz"): string | undefined {
+  const { questionCount, choicesPerQuestion } = dimensions;
+  if (
+    !Number.isInteger(questionCount) ||
+    questionCount < QUIZ_LIMITS.minQuestions ||
+    questionCount > QUIZ_LIMITS.maxQuestions
+  ) {
+    return `${label}: question count must be an integer from ${QUIZ_LIMITS.minQuestions} to ${QUIZ_LIMITS.maxQuestions} (got ${questionCount}).`;
+  }
+  if (
+    !Number.isInteger(choicesPerQuestion) ||
+    choicesPerQuestion < QUIZ_LIMITS.minChoices ||
+    choicesPerQuestion > QUIZ_LIMITS.maxChoices
+  ) {
+    return `${label}: choices per question must be an integer from ${QUIZ_LIMITS.minChoices} to ${QUIZ_LIMITS.maxChoices} (got ${choicesPerQuestion}).`;
+  }
+  return undefined;
+}
+
+/** What is wrong with a year level range, or undefined if it is within `QUIZ_LIMITS`. */
+export function yearLevelProblem(yearLevel: { min: number; max: number }): string | undefined {
+  for (const key of ["min", "max"] as const) {
+    const value = yearLevel[key];
+    if (!Number.isInteger(value) || value < QUIZ_LIMITS.minYearLevel || value > QUIZ_LIMITS.maxYearLevel) {
+      return `yearLevel.${key} must be an integer from ${QUIZ_LIMITS.minYearLevel} to ${QUIZ_LIMITS.maxYearLevel} (got ${value}).`;
+    }
+  }
+  return yearLevel.max < yearLevel.min ? "yearLevel.max must be >= yearLevel.min" : undefined;
+}
+
+export function assertQuizDimensions(dimensions: QuizDimensions, label = "Quiz"): void {
+  const problem = quizDimensionsProblem(dimensions, label);
+  if (problem) throw new Error(problem);
+}
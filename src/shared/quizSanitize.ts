@@ -0,0 +1,104 @@
+// Clean-up of loosely shaped quiz JSON from a model, before it is validated against the schema.
+import type { Question } from "./nexgenQuiz.generated.js";
+
+const MAX_QUIZ_TAGS = 12;
+
+export function toNonEmptyString(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function normalizeNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+/** A choice given as a string or as an object with its text under a common key. */
+function normalizeChoice(value: unknown): string | undefined {
+  const direct = toNonEmptyString(value);
+  if (direct) return direct;
+  if (typeof value !== "object" || value === null) return undefined;
+  const record = value as Record<string, unknown>;
+  return (
+    toNonEmptyString(record.text) ??
+    toNonEmptyString(record.answer_text) ??
+    toNonEmptyString(record.label) ??
+    toNonEmptyString(record.value)
+  );
+}
+
+/** Non-empty, de-duplicated and capped at the schema's tag limit. */
+export function sanitizeTags(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const entry of value) {
+    const tag = toNonEmptyString(entry);
+    if (!tag || seen.has(tag)) continue;
+    seen.add(tag);
+    tags.push(tag);
+    if (tags.length >= MAX_QUIZ_TAGS) break;
+  }
+  return tags.length ? tags : undefined;
+}
+
+/** Cleans up what it can; anything it cannot fill in (too few questions or choices) is listed in `problems`. */
+export function sanitizeQuestions(
+  value: unknown,
+  count: number,
+  choicesPerQuestion: number,
+  problems: string[]
+): Question[] | null {
+  if (!Array.isArray(value)) {
+    problems.push("/questions must be an array");
+    return null;
+  }
+  if (value.length < count) {
+    problems.push(`/questions has ${value.length} items; ${count} are required`);
+    return null;
+  }
+  const subset = value.slice(0, count);
+
+  const questions = subset.map((raw, idx) => {
+    const record = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+    const id = `Q${idx + 1}`;
+    const prompt = toNonEmptyString(record.prompt) ?? `Question ${idx + 1}`;
+
+    const choicesRaw = Array.isArray(record.choices) ? record.choices : [];
+    const choicesClean = choicesRaw
+      .map((choice) => normalizeChoice(choice))
+      .filter((choice): choice is string => Boolean(choice));
+    if (choicesClean.length < choicesPerQuestion) {
+      problems.push(`/questions/${idx}/choices has ${choicesClean.length} non-empty choices; ${choicesPerQuestion} are required`);
+      return null;
+    }
+    const choices = choicesClean.slice(0, choicesPerQuestion);
+
+    const correctIndexRaw = normalizeNumber(record.correctIndex, 0);
+    const correctIndex = Number.isInteger(correctIndexRaw) && correctIndexRaw >= 0 && correctIndexRaw < choicesPerQuestion
+      ? correctIndexRaw
+      : 0;
+
+    const explanation = toNonEmptyString(record.explanation);
+    const difficulty = toNonEmptyString(record.difficulty) as Question["difficulty"] | undefined;
+    const outcomeTags = sanitizeTags(record.outcomeTags);
+
+    const question: Question = {
+      id,
+      type: "multiple_choice",
+      prompt,
+      choices,
+      correctIndex
+    };
+    if (explanation) question.explanation = explanation;
+    if (difficulty === "easy" || difficulty === "medium" || difficulty === "hard") {
+      question.difficulty = difficulty;
+    }
+    if (outcomeTags) question.outcomeTags = outcomeTags;
+
+    return question;
+  });
+
+  if (questions.some((q) => q === null)) return null;
+  return questions as Question[];
+}
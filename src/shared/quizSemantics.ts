@@ -0,0 +1,267 @@
+// Quiz checks JSON Schema cannot express, shared by the CLI validator and the agent worker.
+// Pure TypeScript with no Node imports so the worker bundle can use it as-is.
+
+export type QuizIssueCode =
+  | "schema"
+  | "year-level-range"
+  | "duplicate-question-id"
+  | "question-count-mismatch"
+  | "choice-count-mismatch"
+  | "correct-index-range"
+  | "duplicate-choice"
+  | "duplicate-correct-answer"
+  | "empty-explanation"
+  | "date-order"
+  | "duplicate-matching-prompt"
+  | "choice-feedback-count"
+  | "duplicate-group-id"
+  | "unknown-group"
+  | "group-pick-count";
+
+export type QuizIssue = {
+  code: QuizIssueCode;
+  /** JSON pointer into the quiz, in the same form as Ajv's `instancePath`. */
+  path: string;
+  message: string;
+  /** The issue is about a property name rather than its value (e.g. an unknown property). */
+  atKey?: boolean;
+};
+
+type LooseQuestion = {
+  id?: unknown;
+  type?: unknown;
+  choices?: unknown;
+  correctIndex?: unknown;
+  correctIndices?: unknown;
+  explanation?: unknown;
+  choiceFeedback?: unknown;
+  pairs?: unknown;
+  group?: unknown;
+};
+
+type LooseQuiz = {
+  yearLevel?: { min?: unknown; max?: unknown };
+  settings?: {
+    questionCount?: unknown;
+    choicesPerQuestion?: unknown;
+    unlockAt?: unknown;
+    dueAt?: unknown;
+    lockAt?: unknown;
+  };
+  questions?: unknown;
+  groups?: unknown;
+};
+
+function normalizeText(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function questionLabel(question: LooseQuestion, idx: number): string {
+  return typeof question.id === "string" ? question.id : `Question ${idx + 1}`;
+}
+
+/** Availability dates must run unlock -> due -> lock. */
+export function dateOrderIssues(settings: { unlockAt?: unknown; dueAt?: unknown; lockAt?: unknown }, base: string): QuizIssue[] {
+  const issues: QuizIssue[] = [];
+  const order = (["unlockAt", "dueAt", "lockAt"] as const)
+    .map((key) => ({ key, time: typeof settings[key] === "string" ? Date.parse(settings[key] as string) : NaN }))
+    .filter((entry) => !Number.isNaN(entry.time));
+  for (let i = 1; i < order.length; i += 1) {
+    if (order[i].time < order[i - 1].time) {
+      issues.push({
+        code: "date-order",
+        path: `${base}/${order[i].key}`,
+        message: `settings.${order[i].key} is before settings.${order[i - 1].key}.`
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks that JSON Schema cannot express. Written against loosely typed input so it can run
+ * alongside schema errors instead of only after the schema passes.
+ */
+export function semanticIssues(input: unknown): QuizIssue[] {
+  if (typeof input !== "object" || input === null) return [];
+  const q = input as LooseQuiz;
+  const issues: QuizIssue[] = [];
+
+  const { min, max } = q.yearLevel ?? {};
+  if (typeof min === "number" && typeof max === "number" && max < min) {
+    issues.push({
+      code: "year-level-range",
+      path: "/yearLevel/max",
+      message: `yearLevel.max must be >= yearLevel.min (got ${min} to ${max})`
+    });
+  }
+
+  issues.push(...dateOrderIssues(q.settings ?? {}, "/settings"));
+
+  if (!Array.isArray(q.questions)) return issues;
+  const questions = q.questions.filter((x): x is LooseQuestion => typeof x === "object" && x !== null);
+
+  const seenIds = new Map<string, number>();
+  questions.forEach((question, idx) => {
+    if (typeof question.id !== "string") return;
+    const first = seenIds.get(question.id);
+    if (first === undefined) {
+      seenIds.set(question.id, idx);
+    } else {
+      issues.push({
+        code: "duplicate-question-id",
+        path: `/questions/${idx}/id`,
+        message: `Question id ${question.id} is already used by question ${first + 1}. Question ids must be unique.`
+      });
+    }
+  });
+
+  const { questionCount, choicesPerQuestion } = q.settings ?? {};
+  if (typeof questionCount === "number" && questionCount !== q.questions.length) {
+    issues.push({
+      code: "question-count-mismatch",
+      path: "/settings/questionCount",
+      message: `settings.questionCount is ${questionCount} but the quiz has ${q.questions.length} questions.`
+    });
+  }
+
+  questions.forEach((question, idx) => {
+    const path = `/questions/${idx}`;
+    const label = questionLabel(question, idx);
+    const isV1 = question.type === "multiple_choice" && typeof choicesPerQuestion === "number";
+    const choices = Array.isArray(question.choices) ? question.choices : undefined;
+
+    if (isV1 && choices && choices.length !== choicesPerQuestion) {
+      issues.push({
+        code: "choice-count-mismatch",
+        path: `${path}/choices`,
+        message: `${label}: has ${choices.length} choices but settings.choicesPerQuestion is ${String(choicesPerQuestion)}.`
+      });
+    }
+
+    const correct = new Set<number>();
+    if (choices && typeof question.correctIndex === "number") {
+      if (question.correctIndex >= choices.length) {
+        issues.push({
+          code: "correct-index-range",
+          path: `${path}/correctIndex`,
+          message: `${label}: correctIndex ${question.correctIndex} is out of range for ${choices.length} choices.`
+        });
+      } else {
+        correct.add(question.correctIndex);
+      }
+    }
+    if (choices && Array.isArray(question.correctIndices)) {
+      const indices = question.correctIndices.filter((x): x is number => typeof x === "number");
+      const outOfRange = indices.filter((x) => x >= choices.length);
+      if (outOfRange.length > 0) {
+        issues.push({
+          code: "correct-index-range",
+          path: `${path}/correctIndices`,
+          message: `${label}: correctIndices ${outOfRange.join(", ")} out of range for ${choices.length} choices.`
+        });
+      }
+      indices.filter((x) => x < choices.length).forEach((x) => correct.add(x));
+    }
+
+    if (choices) {
+      const firstByText = new Map<string, number>();
+      choices.forEach((choice, choiceIdx) => {
+        if (typeof choice !== "string") return;
+        const key = normalizeText(choice);
+        const first = firstByText.get(key);
+        if (first === undefined) {
+          firstByText.set(key, choiceIdx);
+          return;
+        }
+        const involvesCorrect = correct.has(first) || correct.has(choiceIdx);
+        issues.push({
+          code: involvesCorrect ? "duplicate-correct-answer" : "duplicate-choice",
+          path: `${path}/choices/${choiceIdx}`,
+          message: involvesCorrect
+            ? `${label}: the correct answer "${choice}" is repeated (choices ${first + 1} and ${choiceIdx + 1}).`
+            : `${label}: choice ${choiceIdx + 1} duplicates choice ${first + 1} ("${choice}").`
+        });
+      });
+    }
+
+    if (choices && Array.isArray(question.choiceFeedback) && question.choiceFeedback.length !== choices.length) {
+      issues.push({
+        code: "choice-feedback-count",
+        path: `${path}/choiceFeedback`,
+        message: `${label}: has ${question.choiceFeedback.length} choiceFeedback entries for ${choices.length} choices. Give one per choice (use "" for none).`
+      });
+    }
+
+    if (typeof question.explanation === "string" && question.explanation.trim() === "") {
+      issues.push({
+        code: "empty-explanation",
+        path: `${path}/explanation`,
+        message: `${label}: explanation is empty. Remove it or add text.`
+      });
+    }
+
+    if (question.type === "matching" && Array.isArray(question.pairs)) {
+      const lefts = question.pairs
+        .map((pair) => (typeof pair === "object" && pair !== null ? (pair as { left?: unknown }).left : undefined))
+        .filter((left): left is string => typeof left === "string")
+        .map(normalizeText);
+      if (new Set(lefts).size !== lefts.length) {
+        issues.push({
+          code: "duplicate-matching-prompt",
+          path: `${path}/pairs`,
+          message: `${label}: matching pairs must have unique left-hand prompts.`
+        });
+      }
+    }
+  });
+
+  issues.push(...groupIssues(q.groups, questions));
+
+  return issues;
+}
+
+/** Group ids must be unique, referenced by at least `pickCount` questions, and only refer to real groups. */
+function groupIssues(groups: unknown, questions: LooseQuestion[]): QuizIssue[] {
+  const issues: QuizIssue[] = [];
+  const list = Array.isArray(groups) ? groups : [];
+  const members = new Map<string, number>();
+  questions.forEach((question) => {
+    if (typeof question.group === "string") members.set(question.group, (members.get(question.group) ?? 0) + 1);
+  });
+
+  const known = new Set<string>();
+  list.forEach((group, idx) => {
+    if (typeof group !== "object" || group === null) return;
+    const { id, pickCount } = group as { id?: unknown; pickCount?: unknown };
+    if (typeof id !== "string") return;
+    if (known.has(id)) {
+      issues.push({
+        code: "duplicate-group-id",
+        path: `/groups/${idx}/id`,
+        message: `Group id "${id}" is used more than once. Group ids must be unique.`
+      });
+      return;
+    }
+    known.add(id);
+    const count = members.get(id) ?? 0;
+    if (typeof pickCount === "number" && pickCount > count) {
+      issues.push({
+        code: "group-pick-count",
+        path: `/groups/${idx}/pickCount`,
+        message: `Group "${id}" picks ${pickCount} questions but only ${count} question(s) are in it.`
+      });
+    }
+  });
+
+  questions.forEach((question, idx) => {
+    if (typeof question.group === "string" && !known.has(question.group)) {
+      issues.push({
+        code: "unknown-group",
+        path: `/questions/${idx}/group`,
+        message: `${questionLabel(question, idx)}: group "${question.group}" is not defined in groups.`
+      });
+    }
+  });
+  return issues;
+}
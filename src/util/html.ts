@@ -0,0 +1,54 @@
+const SPACE_RE = /\s+/g;
+
+export function toPlainText(html: string): string {
+  const noTags = html
+    .replace(/<style[\s\S]*?<\/style>/gi, " ")
+    .replace(/<script[\s\S]*?<\/script>/gi, " ")
+    // Canvas equation images keep their LaTeX, in the delimiters question text uses for it.
+    .replace(/<img\b[^>]*\bdata-equation-content="([^"]*)"[^>]*>/gi, (_match, latex: string) => ` $${latex}$ `)
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|li|h1|h2|h3|h4|h5|h6|div)>/gi, "\n")
+    .replace(/<[^>]+>/g, " ");
+
+  return decodeHtmlEntities(noTags).replace(SPACE_RE, " ").trim();
+}
+
+export function decodeHtmlEntities(input: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: "\"",
+    apos: "'",
+    nbsp: " ",
+    ndash: "-",
+    mdash: "-",
+    rsquo: "'",
+    lsquo: "'",
+    ldquo: "\"",
+    rdquo: "\"",
+    times: "x"
+  };
+
+  return input.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    const key = String(entity).toLowerCase();
+    if (key.startsWith("#x")) return fromCharReference(Number.parseInt(key.slice(2), 16));
+    if (key.startsWith("#")) return fromCharReference(Number.parseInt(key.slice(1), 10));
+    return named[key] ?? match;
+  });
+}
+
+/** Like a browser: NUL, surrogates and code points past U+10FFFF become U+FFFD instead of throwing. */
+function fromCharReference(code: number): string {
+  if (!Number.isFinite(code) || code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) return "\ufffd";
+  return String.fromCodePoint(code);
+}
+
+export function escapeHtml(input: string): string {
+  return input
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}